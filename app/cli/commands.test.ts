@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { COMMANDS, findCommand } from './commands';
+
+describe('findCommand', () => {
+  it('finds every command by name', () => {
+    for (const name of Object.keys(COMMANDS)) expect(findCommand(name)).toBe(COMMANDS[name]);
+  });
+
+  it.each(['toString', 'constructor', 'hasOwnProperty', '__proto__', 'valueOf', 'nope'])(
+    'treats "%s" as unknown',
+    (name) => {
+      expect(findCommand(name)).toBeUndefined();
+    },
+  );
+});
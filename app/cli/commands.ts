@@ -0,0 +1,153 @@
+import { convertAt, getCurrencies, getLatestRates, getTimeseries, mergeCurrencies } from '../src/lib/api';
+import { parseAmount } from '../src/lib/amount';
+import { roundAmount } from '../src/lib/format';
+import { EARLIEST_DATE, toISODate, validateRange } from '../src/lib/ranges';
+import type { Table } from './output';
+
+/** Wrong or missing arguments; the CLI prints usage and exits with 2 */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/** Options every command may read; unknown ones were rejected by the parser */
+export type Flags = {
+  start?: string;
+  end?: string;
+  date?: string;
+  crypto?: boolean;
+  all?: boolean;
+};
+
+export type Command = {
+  usage: string;
+  summary: string;
+  run(args: string[], flags: Flags, signal: AbortSignal): Promise<Table>;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function currencyCode(value: string | undefined, what: string): string {
+  const code = value?.trim().toUpperCase() ?? '';
+  if (!/^[A-Z]{3,5}$/.test(code)) {
+    throw new UsageError(value ? `"${value}" is not a currency code (${what}).` : `Missing ${what} currency.`);
+  }
+  return code;
+}
+
+// ISO 4217 codes the runtime knows; anything else may be a coin
+const ISO_CODES = new Set(Intl.supportedValuesOf('currency'));
+
+/**
+ * Loads the crypto list (cached for a day) when a code isn't an ISO currency,
+ * so coins are recognised as such: they pivot differently and keep 8 decimals.
+ * The web app does the same at startup.
+ */
+async function learnCrypto(codes: string[], signal: AbortSignal) {
+  if (codes.every((c) => ISO_CODES.has(c))) return;
+  try {
+    await getCurrencies('crypto', { signal });
+  } catch {
+    // without the list coins are treated like fiat - still converted
+  }
+}
+
+// "EUR,GBP" and "EUR GBP" both work
+const codeList = (args: string[]) =>
+  args.flatMap((a) => a.split(',')).filter(Boolean).map((c) => currencyCode(c, 'symbol'));
+
+/**
+ * The four commands, keyed by name. Each returns a Table; formatting and
+ * exit codes are left to index.ts.
+ */
+export const COMMANDS: Record<string, Command> = {
+  convert: {
+    usage: 'convert <amount> <from> <to> [--date YYYY-MM-DD]',
+    summary: 'Convert an amount, today or at a past date',
+    async run([amountText, fromArg, toArg], flags, signal) {
+      // same parser as the Amount field: "1,200.50", "2.5k", "120*3"
+      const amount = parseAmount(amountText ?? '', 'en-US');
+      if (!amountText || !amount.ok) {
+        throw new UsageError(amount.ok ? 'Missing amount.' : `Amount: ${amount.error}`);
+      }
+      const from = currencyCode(fromArg, 'from');
+      const to = currencyCode(toArg, 'to');
+      const today = toISODate(new Date());
+      const date = flags.date ?? today;
+      if (!ISO_DATE.test(date) || date < EARLIEST_DATE) {
+        throw new UsageError(`--date must be a day from ${EARLIEST_DATE} on, as YYYY-MM-DD.`);
+      }
+
+      await learnCrypto([from, to], signal);
+      const res = await convertAt({ from, to, amount: amount.value, date, signal });
+      const rateDate = typeof res.meta?.date === 'string' ? res.meta.date : today;
+      return {
+        columns: ['from', 'to', 'amount', 'result', 'rate', 'date', 'source'],
+        rows: [[from, to, amount.value, roundAmount(res.exact?.result ?? res.result, to), res.rate, rateDate, res.provider]],
+      };
+    },
+  },
+
+  rates: {
+    usage: 'rates <base> [symbols...]',
+    summary: 'Latest rates against a base, for all or some currencies',
+    async run([baseArg, ...symbolArgs], _flags, signal) {
+      const base = currencyCode(baseArg, 'base');
+      const symbols = codeList(symbolArgs);
+      const res = await getLatestRates({ base, symbols, signal });
+      const date = res.asOf ?? toISODate(new Date());
+      return {
+        columns: ['base', 'symbol', 'rate', 'date', 'source'],
+        rows: Object.entries(res.rates)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([symbol, rate]) => [base, symbol, rate, date, res.provider]),
+      };
+    },
+  },
+
+  history: {
+    usage: 'history <from> <to> --start YYYY-MM-DD [--end YYYY-MM-DD]',
+    summary: 'Daily rates between two dates (end defaults to today)',
+    async run([fromArg, toArg], flags, signal) {
+      const from = currencyCode(fromArg, 'from');
+      const to = currencyCode(toArg, 'to');
+      const start = flags.start;
+      const end = flags.end ?? toISODate(new Date());
+      if (!start) throw new UsageError('history needs --start YYYY-MM-DD.');
+      const invalid = validateRange(start, end);
+      if (invalid) throw new UsageError(invalid);
+
+      await learnCrypto([from, to], signal);
+      const points = await getTimeseries({ from, to, start, end, signal });
+      return {
+        columns: ['date', 'from', 'to', 'rate'],
+        rows: points.map((p) => [p.date, from, to, p.rate]),
+      };
+    },
+  },
+
+  currencies: {
+    usage: 'currencies [--crypto | --all]',
+    summary: 'List supported currencies (fiat unless --crypto or --all)',
+    async run(_args, flags, signal) {
+      const fiat = flags.crypto ? [] : await getCurrencies('fiat', { signal });
+      const crypto = flags.crypto || flags.all ? await getCurrencies('crypto', { signal }) : [];
+      return {
+        columns: ['code', 'name', 'symbol', 'type'],
+        rows: mergeCurrencies(fiat, crypto).map((c) => [c.code, c.name, c.symbol, c.type]),
+      };
+    },
+  },
+};
+
+/**
+ * The command called name, if there is one. Only the table's own keys count,
+ * so "toString" or "constructor" is an unknown command like any other.
+ *
+ * @param name - first positional argument
+ */
+export function findCommand(name: string): Command | undefined {
+  return Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+}
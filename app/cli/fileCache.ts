@@ -0,0 +1,97 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { CacheEntry, ResponseStore } from '../src/lib/http';
+import type { KeyValueStore } from '../src/lib/storage';
+
+/**
+ * File-backed replacements for the browser's storage, so repeated CLI runs
+ * (a cron job every few minutes, a shell loop) share cached answers and the
+ * API usage count instead of starting from nothing each time. The proxy
+ * server (server/) uses fileResponseStore for its optional disk cache.
+ *
+ * Layout of the cache directory:
+ *   - store.json:        what the web app keeps in localStorage
+ *   - responses/<hash>:  one cached API answer per request URL
+ */
+
+/** $XDG_CACHE_HOME/currency-converter, or ~/.cache/currency-converter */
+export function defaultCacheDir(): string {
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'currency-converter');
+}
+
+// Write to a temp file first so a crashed or parallel run never leaves half a file
+function writeAtomic(path: string, text: string) {
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, text);
+  renameSync(tmp, path);
+}
+
+function readJSON(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    // missing or unreadable - treat as empty
+    return undefined;
+  }
+}
+
+/**
+ * KeyValueStore kept in dir/store.json; read once, written on every change
+ *
+ * @param dir - cache directory, created when missing
+ */
+export function fileStore(dir: string): KeyValueStore {
+  const path = join(dir, 'store.json');
+  const parsed = readJSON(path);
+  const values: Record<string, string> =
+    parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, string>) : {};
+
+  const save = () => {
+    try {
+      mkdirSync(dir, { recursive: true });
+      writeAtomic(path, JSON.stringify(values));
+    } catch {
+      // read-only or full disk - values last for this run
+    }
+  };
+
+  return {
+    getItem: (key) => (typeof values[key] === 'string' ? values[key] : null),
+    setItem: (key, value) => {
+      values[key] = value;
+      save();
+    },
+    removeItem: (key) => {
+      delete values[key];
+      save();
+    },
+  };
+}
+
+/**
+ * ResponseStore with one file per request URL. File names are hashes of the
+ * URL, so the API key in the query string never ends up in a file name.
+ *
+ * @param dir - cache directory; answers go to dir/responses
+ */
+export function fileResponseStore(dir: string): ResponseStore {
+  const folder = join(dir, 'responses');
+  const fileFor = (url: string) => join(folder, `${createHash('sha256').update(url).digest('hex')}.json`);
+
+  return {
+    get(url) {
+      const entry = readJSON(fileFor(url)) as CacheEntry | undefined;
+      return entry && typeof entry.expires === 'number' ? entry : undefined;
+    },
+    set(url, entry) {
+      try {
+        mkdirSync(folder, { recursive: true });
+        writeAtomic(fileFor(url), JSON.stringify(entry));
+      } catch {
+        // not cached this time
+      }
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Recording } from '../src/lib/http';
+import { fixtureQuery, isFixture, type Fixture } from '../src/lib/mock/fixtures';
+
+/**
+ * Fixture files for --record and --replay: one JSON file per call, named
+ * after the endpoint plus a hash of the query, e.g. latest_1a2b3c4d.json.
+ * Recording the same call again overwrites its file.
+ */
+
+/**
+ * Recorder for setRecorder that writes every network answer into dir
+ *
+ * @param dir - created when missing
+ */
+export function fixtureRecorder(dir: string): (recording: Recording) => void {
+  return ({ url, label, status, headers, body }) => {
+    const query = fixtureQuery(url);
+    const fixture: Fixture = { endpoint: label, query, status, body };
+    if (Object.keys(headers).length) fixture.headers = headers;
+
+    const name = `${label.replace(/[^\w.-]+/g, '-')}_${createHash('sha256').update(query).digest('hex').slice(0, 8)}.json`;
+    try {
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dir, name), JSON.stringify(fixture, null, 2) + '\n');
+    } catch (e) {
+      process.stderr.write(`Could not record ${label}: ${e instanceof Error ? e.message : e}\n`);
+    }
+  };
+}
+
+/**
+ * Every fixture in dir; other files are skipped
+ *
+ * @param dir - folder written by fixtureRecorder (or holding hand-written fixtures)
+ *
+ * @throws When dir can't be read
+ */
+export function readFixtures(dir: string): Fixture[] {
+  return readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .flatMap((name) => {
+      try {
+        const parsed: unknown = JSON.parse(readFileSync(join(dir, name), 'utf8'));
+        return isFixture(parsed) ? [parsed] : [];
+      } catch {
+        return [];
+      }
+    });
+}
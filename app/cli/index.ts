@@ -0,0 +1,168 @@
+/**
+ * Command-line front end to the same API layer as the web app: provider
+ * failover, caching, retries and exact arithmetic included.
+ *
+ *   node dist-cli/cli.js convert 100 USD EUR
+ *   node dist-cli/cli.js rates EUR USD,GBP --format csv
+ *
+ * Settings are the web app's VITE_* variables, read from the environment
+ * (`node --env-file=.env dist-cli/cli.js ...` reuses the app's .env);
+ * VITE_CURRENCYBEACON_BASE=mock: gives synthetic rates with no network.
+ * --record <dir> saves every answer as a fixture, --replay <dir> answers from them.
+ */
+import { parseArgs } from 'node:util';
+import { configure, readConfig } from '../src/lib/config';
+import { REPLAY_SCHEME, setReplayFixtures } from '../src/lib/mock';
+import { errorMessage, isApiError, type ApiErrorKind } from '../src/lib/errors';
+import { isAbortError, setRecorder, setResponseStore } from '../src/lib/http';
+import { setStorage } from '../src/lib/storage';
+import { COMMANDS, findCommand, UsageError } from './commands';
+import { defaultCacheDir, fileResponseStore, fileStore } from './fileCache';
+import { fixtureRecorder, readFixtures } from './fixtureFiles';
+import { OUTPUT_FORMATS, render, type OutputFormat } from './output';
+
+/** Process exit codes, so scripts can tell a typo from an outage */
+const EXIT = {
+  ok: 0,
+  /** anything unexpected */
+  failure: 1,
+  /** bad command, option or argument */
+  usage: 2,
+  /** API key missing, invalid or not allowed (401/403) */
+  auth: 3,
+  /** request quota used up (402/429) */
+  quota: 4,
+  /** no connection to any rate source */
+  network: 5,
+  /** no rates for these currencies or dates */
+  notFound: 6,
+  /** a source answered with an error or an unreadable body */
+  service: 7,
+  /** interrupted with Ctrl+C */
+  interrupted: 130,
+} as const;
+
+const EXIT_FOR_KIND: Record<ApiErrorKind, number> = {
+  auth: EXIT.auth,
+  quota: EXIT.quota,
+  network: EXIT.network,
+  'not-found': EXIT.notFound,
+  malformed: EXIT.service,
+  server: EXIT.service,
+};
+
+const OPTIONS = {
+  format: { type: 'string', short: 'f' },
+  start: { type: 'string' },
+  end: { type: 'string' },
+  date: { type: 'string' },
+  crypto: { type: 'boolean' },
+  all: { type: 'boolean' },
+  'cache-dir': { type: 'string' },
+  'no-cache': { type: 'boolean' },
+  record: { type: 'string' },
+  replay: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+function usage(): string {
+  const commands = Object.values(COMMANDS)
+    .map((c) => `  ${c.usage.padEnd(60)} ${c.summary}`)
+    .join('\n');
+  return `Usage: cli <command> [arguments] [options]
+
+Commands:
+${commands}
+
+Options:
+  -f, --format table|json|csv   output format (default table)
+  --cache-dir <dir>             where answers are cached (default ${defaultCacheDir()})
+  --no-cache                    don't read or write the cache
+  --record <dir>                save every API answer as a fixture file in dir
+  --replay <dir>                answer from fixture files in dir instead of the network
+  -h, --help                    show this help
+
+Exit codes: 0 ok, 1 unexpected error, 2 usage, 3 API key rejected, 4 quota used up,
+5 no connection, 6 no rates found, 7 rate service error
+`;
+}
+
+/** User-facing text for a failure; the browser's advice about .env and saved rates doesn't fit a shell */
+function failureMessage(err: unknown): string {
+  if (isApiError(err, 'auth')) {
+    return 'The rate service rejected the API key. Set VITE_CURRENCYBEACON_API_KEY in the environment.';
+  }
+  if (isApiError(err, 'network')) return 'Can’t reach the rate service. Check your connection.';
+  return errorMessage(err, 'Something went wrong.');
+}
+
+/**
+ * Runs one command line
+ *
+ * @param argv - arguments after the script name
+ * @returns The exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (e) {
+    process.stderr.write(`${e instanceof Error ? e.message : e}\n\n${usage()}`);
+    return EXIT.usage;
+  }
+  const { values, positionals } = parsed;
+  const [name, ...args] = positionals;
+
+  if (values.help || !name) {
+    process[values.help ? 'stdout' : 'stderr'].write(usage());
+    return values.help ? EXIT.ok : EXIT.usage;
+  }
+
+  const command = findCommand(name);
+  const format = (values.format ?? 'table') as OutputFormat;
+  if (!command || !OUTPUT_FORMATS.includes(format)) {
+    process.stderr.write(
+      `${command ? `Unknown format "${format}".` : `Unknown command "${name}".`}\n\n${usage()}`,
+    );
+    return EXIT.usage;
+  }
+
+  configure(readConfig(process.env));
+  if (values.replay) {
+    try {
+      setReplayFixtures(readFixtures(values.replay));
+    } catch (e) {
+      process.stderr.write(`Can't read fixtures: ${e instanceof Error ? e.message : e}\n`);
+      return EXIT.usage;
+    }
+    configure({ currencyBeaconBase: REPLAY_SCHEME, frankfurterBase: `${REPLAY_SCHEME}frankfurter` });
+  }
+  if (values.record) setRecorder(fixtureRecorder(values.record));
+  // cached answers would hide calls from --record and mix real data into --replay
+  if (!values['no-cache'] && !values.record && !values.replay) {
+    const dir = values['cache-dir'] ?? defaultCacheDir();
+    setStorage(fileStore(dir));
+    setResponseStore(fileResponseStore(dir));
+  }
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  try {
+    const table = await command.run(args, values, controller.signal);
+    process.stdout.write(render(table, format));
+    return EXIT.ok;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      process.stderr.write(`${e.message}\n\nUsage: cli ${command.usage}\n`);
+      return EXIT.usage;
+    }
+    if (isAbortError(e)) return EXIT.interrupted;
+    process.stderr.write(`${failureMessage(e)}\n`);
+    return isApiError(e) ? EXIT_FOR_KIND[e.kind] : EXIT.failure;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,59 @@
+import { toCSV } from '../src/lib/export';
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv'];
+
+/** Rows under named columns; every command's result before formatting */
+export type Table = {
+  columns: string[];
+  rows: unknown[][];
+};
+
+const cell = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+
+// Numbers line up on the right, text on the left
+const isNumeric = (value: unknown) => typeof value === 'number' || /^-?[\d,.]+$/.test(cell(value));
+
+/**
+ * Table as aligned plain-text columns with a header rule, for people
+ *
+ * @param table - columns and rows
+ */
+export function renderTable({ columns, rows }: Table): string {
+  const widths = columns.map((c, i) => Math.max(c.length, ...rows.map((r) => cell(r[i]).length)));
+  const line = (values: unknown[], header = false) =>
+    values
+      .map((v, i) => {
+        const text = cell(v);
+        return !header && isNumeric(v) ? text.padStart(widths[i]) : text.padEnd(widths[i]);
+      })
+      .join('  ')
+      .trimEnd();
+
+  return [line(columns, true), widths.map((w) => '-'.repeat(w)).join('  '), ...rows.map((r) => line(r))]
+    .join('\n')
+    .concat('\n');
+}
+
+/**
+ * Table as JSON: one object per row, keyed by column
+ *
+ * @param table - columns and rows
+ */
+export function renderJSON({ columns, rows }: Table): string {
+  const records = rows.map((r) => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? null])));
+  return JSON.stringify(records, null, 2) + '\n';
+}
+
+/**
+ * Formats a command's result
+ *
+ * @param table  - columns and rows
+ * @param format - table for people; json or csv for scripts
+ */
+export function render(table: Table, format: OutputFormat): string {
+  if (format === 'json') return renderJSON(table);
+  if (format === 'csv') return toCSV([table.columns, ...table.rows]);
+  return renderTable(table);
+}
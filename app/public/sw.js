@@ -0,0 +1,64 @@
+// app/public/sw.js
+// App-shell service worker: lets the installed app open with no connection.
+// Rates themselves are kept in IndexedDB by the app (src/lib/snapshots.ts),
+// so API calls to other origins pass straight through.
+
+// Filled in by the build (see vite.config.ts): the hashed JS/CSS bundles and a
+// version that changes with them, so every deploy installs a new worker
+const BUILD = /* __PRECACHE__ */ { version: 'dev', assets: [] };
+
+const CACHE = `cc-shell-${BUILD.version}`;
+// Everything the page needs to start, cached on install rather than on first use:
+// the worker registers after load, so on a first visit it never sees the bundles
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/favicon.svg', ...BUILD.assets];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop shells from older versions
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((res) => {
+          const copy = res.clone();
+          caches.open(CACHE).then((cache) => cache.put('/index.html', copy));
+          return res;
+        })
+        .catch(() => caches.match('/index.html')),
+    );
+    return;
+  }
+
+  // Hashed build assets: serve from cache, refresh in the background
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request)
+        .then((res) => {
+          if (res.ok) {
+            const copy = res.clone();
+            caches.open(CACHE).then((cache) => cache.put(request, copy));
+          }
+          return res;
+        })
+        .catch(() => cached);
+      return cached || network;
+    }),
+  );
+});
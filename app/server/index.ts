@@ -0,0 +1,85 @@
+/**
+ * Local proxy for the CurrencyBeacon API: keeps the key on the server and
+ * shares one cache between every browser using the app.
+ *
+ *   CURRENCYBEACON_API_KEY=... node dist-server/proxy.js
+ *   node dist-server/proxy.js --stub     (made-up rates, no key or network needed)
+ *
+ * Then build or run the app with VITE_CURRENCYBEACON_BASE=http://localhost:8787
+ * and no VITE_CURRENCYBEACON_API_KEY.
+ */
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { parseArgs } from 'node:util';
+import { DEFAULT_CURRENCYBEACON_BASE } from '../src/lib/config';
+import { setResponseStore } from '../src/lib/http';
+import { fileResponseStore } from '../cli/fileCache';
+import { createProxy } from './proxy';
+import { stubUpstream } from './stubUpstream';
+
+const env = process.env;
+const positive = (value: string | undefined, fallback: number) => Number(value) || fallback;
+
+const listen = (server: Server, port: number) =>
+  new Promise<number>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve((server.address() as AddressInfo).port));
+  });
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', short: 'p' },
+      stub: { type: 'boolean' },
+      'cache-dir': { type: 'string' },
+    },
+  });
+
+  const servers: Server[] = [];
+  let upstream = env.PROXY_UPSTREAM || DEFAULT_CURRENCYBEACON_BASE;
+  let apiKey = env.CURRENCYBEACON_API_KEY;
+
+  if (values.stub) {
+    const stub = createServer(stubUpstream);
+    servers.push(stub);
+    // any free port; only the proxy talks to it
+    upstream = `http://127.0.0.1:${await listen(stub, 0)}`;
+    apiKey ||= 'stub-key';
+  }
+  if (!apiKey) {
+    console.warn('CURRENCYBEACON_API_KEY is not set; upstream will reject requests.');
+  }
+
+  const cacheDir = values['cache-dir'] ?? env.PROXY_CACHE_DIR;
+  if (cacheDir) setResponseStore(fileResponseStore(cacheDir));
+
+  const proxy = createServer(
+    createProxy({
+      upstream,
+      apiKey,
+      clientRate: positive(env.PROXY_CLIENT_RATE, 5),
+      clientBurst: positive(env.PROXY_CLIENT_BURST, 20),
+      upstreamRate: positive(env.PROXY_UPSTREAM_RATE, 5),
+      allowOrigin: env.PROXY_ALLOW_ORIGIN || '*',
+      trustForwardedFor: env.PROXY_TRUST_FORWARDED_FOR === '1',
+    }),
+  );
+  servers.push(proxy);
+  const port = await listen(proxy, positive(values.port ?? env.PROXY_PORT, 8787));
+
+  console.log(`Proxy on http://localhost:${port} -> ${values.stub ? 'stub upstream' : upstream}`);
+  console.log(`Cache: ${cacheDir ? `memory and ${cacheDir}` : 'memory'}. Health: http://localhost:${port}/health`);
+
+  const stop = () => {
+    for (const server of servers) server.close();
+    // don't wait for idle keep-alive connections
+    for (const server of servers) server.closeAllConnections();
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
+
+main().catch((e: unknown) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,167 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ApiError } from '../src/lib/errors';
+import { getJSON, isAbortError } from '../src/lib/http';
+import { CACHE_TTL, checkAnswer } from '../src/lib/providers/currencybeacon';
+import { createTokenBucket, type TokenBucket } from '../src/lib/rateLimit';
+
+export type ProxyOptions = {
+  /** CurrencyBeacon API root requests are forwarded to */
+  upstream: string;
+  /** added to every upstream request; whatever key a client sends is dropped */
+  apiKey?: string;
+  /** requests per second each client may make once its burst is used */
+  clientRate: number;
+  /** requests a client may make at once */
+  clientBurst: number;
+  /** upstream requests per second across all clients */
+  upstreamRate: number;
+  /** Access-Control-Allow-Origin sent with every answer */
+  allowOrigin: string;
+  /** identify clients by X-Forwarded-For, when running behind another proxy */
+  trustForwardedFor: boolean;
+};
+
+/** The routes the app calls, each cached for as long as the app itself would */
+export const ROUTES = Object.keys(CACHE_TTL);
+
+// Clients not seen for this long lose their bucket (it would be full again anyway)
+const CLIENT_IDLE_MS = 10 * 60_000;
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Request handler that forwards the app's CurrencyBeacon calls with the key
+ * added on the server, so it never reaches the browser.
+ *
+ * Answers go through the same request layer as the app (lib/http.ts): one
+ * cache for all clients with the app's per-endpoint TTLs, identical requests
+ * in flight coalesced, retries with backoff. Answers the app would reject
+ * (an error in a 200's meta block, an unreadable body) are not cached and go
+ * out with the error's own status. Each client (by IP) gets its
+ * own token bucket and a 429 with Retry-After when it runs dry.
+ *
+ * GET /health reports the configuration and counters.
+ *
+ * @param opts - see ProxyOptions
+ * @returns A handler for node:http's createServer
+ */
+export function createProxy(opts: ProxyOptions): (req: IncomingMessage, res: ServerResponse) => void {
+  const upstream = opts.upstream.replace(/\/+$/, '');
+  const upstreamLimiter = createTokenBucket({ capacity: 10, perSecond: opts.upstreamRate });
+  const clients = new Map<string, { bucket: TokenBucket; seen: number }>();
+  const started = Date.now();
+  const stats = { requests: 0, upstreamRequests: 0, limited: 0, failed: 0 };
+  let lastSweep = started;
+
+  const clientId = (req: IncomingMessage) => {
+    const forwarded = opts.trustForwardedFor && req.headers['x-forwarded-for'];
+    const first = typeof forwarded === 'string' ? forwarded.split(',')[0].trim() : '';
+    return first || req.socket.remoteAddress || 'unknown';
+  };
+
+  // Whether the client may make another request now
+  const allow = (id: string) => {
+    const now = Date.now();
+    if (now - lastSweep > 60_000) {
+      for (const [key, c] of clients) if (now - c.seen > CLIENT_IDLE_MS) clients.delete(key);
+      lastSweep = now;
+    }
+    let client = clients.get(id);
+    if (!client) {
+      client = {
+        bucket: createTokenBucket({ capacity: opts.clientBurst, perSecond: opts.clientRate }),
+        seen: now,
+      };
+      clients.set(id, client);
+    }
+    client.seen = now;
+    return client.bucket.tryTake();
+  };
+
+  const health = () => ({
+    status: 'ok',
+    upstream,
+    apiKey: Boolean(opts.apiKey),
+    uptimeSeconds: Math.round((Date.now() - started) / 1000),
+    clients: clients.size,
+    ...stats,
+  });
+
+  async function forward(route: string, url: URL, res: ServerResponse) {
+    const query = url.searchParams;
+    query.delete('api_key');
+    if (opts.apiKey) query.set('api_key', opts.apiKey);
+    // same parameters in any order share one cache entry
+    query.sort();
+
+    // stop waiting upstream when the client hangs up
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+      const body = await getJSON(`${upstream}/${route}?${query}`, route, {
+        signal: controller.signal,
+        ttl: CACHE_TTL[route],
+        limiter: upstreamLimiter,
+        onRequest: () => stats.upstreamRequests++,
+        // a 200 reporting an error (bad key, quota) is neither cached nor relayed as a 200
+        check: checkAnswer(route, query.get('type') === 'crypto' ? 'crypto' : 'fiat'),
+      });
+      send(res, 200, body);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      stats.failed++;
+      // upstream's own status (or its meta block's) where there was one; 502 for no or unreadable answers
+      const status = e instanceof ApiError && e.status ? e.status : 502;
+      const retryAfter = e instanceof ApiError && e.retryAfter;
+      send(
+        res,
+        status,
+        { error: e instanceof Error ? e.message : 'Upstream request failed.' },
+        retryAfter ? { 'Retry-After': String(Math.ceil(retryAfter / 1000)) } : {},
+      );
+    }
+  }
+
+  return (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://proxy');
+    const route = url.pathname.replace(/^\/+|\/+$/g, '');
+    res.setHeader('Access-Control-Allow-Origin', opts.allowOrigin);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, OPTIONS', 'Access-Control-Allow-Headers': 'Accept' });
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET') {
+      send(res, 405, { error: 'Only GET is supported.' }, { Allow: 'GET, OPTIONS' });
+      return;
+    }
+    if (route === 'health') {
+      send(res, 200, health(), { 'Cache-Control': 'no-store' });
+      return;
+    }
+    if (!ROUTES.includes(route)) {
+      send(res, 404, { error: `Unknown route "/${route}". Available: ${ROUTES.join(', ')}, health.` });
+      return;
+    }
+
+    stats.requests++;
+    if (!allow(clientId(req))) {
+      stats.limited++;
+      send(
+        res,
+        429,
+        { error: 'Too many requests from this client. Slow down.' },
+        { 'Retry-After': String(Math.max(1, Math.ceil(1 / opts.clientRate))) },
+      );
+      return;
+    }
+    void forward(route, url, res);
+  };
+}
@@ -0,0 +1,31 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { syntheticFixture } from '../src/lib/mock/synthetic';
+
+/**
+ * A stand-in for the CurrencyBeacon API, for running the proxy (and through
+ * it the app) with no key and no network. Answers are the app's mock mode
+ * ones (lib/mock/synthetic.ts): CurrencyBeacon's shapes, made-up but
+ * deterministic rates. Requests without an api_key get a 401, which shows
+ * whether the proxy really adds the key.
+ */
+
+const UNAUTHORIZED = {
+  status: 401,
+  body: { meta: { code: 401, error_type: 'auth failed', error_detail: 'Missing api_key.' } },
+};
+
+/**
+ * Request handler for node:http's createServer
+ */
+export function stubUpstream(req: IncomingMessage, res: ServerResponse): void {
+  const url = req.url ?? '/';
+  const [path, query = ''] = url.split('?');
+  const endpoint = path.replace(/^\/+|\/+$/g, '').replace(/^v1\//, '');
+
+  const { status, body } = new URLSearchParams(query).get('api_key')
+    ? syntheticFixture(endpoint, url)
+    : UNAUTHORIZED;
+
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
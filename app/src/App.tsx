@@ -1,121 +1,347 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import CurrencySelect from './components/CurrencySelect';
 import Amount from './components/Amount';
 import SwapButton from './components/SwapButton';
 import RateChart from './components/RateChart';
-import { getCurrencies, convertOnce, getTimeseries, type Currency } from './lib/api';
+import CompareChart from './components/CompareChart';
+import Watchlist from './components/Watchlist';
+import RangePicker, { type RangeChoice } from './components/RangePicker';
+import ExportButtons from './components/ExportButtons';
+import HistoryPanel from './components/HistoryPanel';
+import AlertsPanel from './components/AlertsPanel';
+import FeesPanel from './components/FeesPanel';
+import BatchPanel from './components/BatchPanel';
+import PastValue from './components/PastValue';
+import UsageMeter from './components/UsageMeter';
+import {
+  getCurrencies,
+  mergeCurrencies,
+  convertOnce,
+  getTimeseries,
+  type ConvertResponse,
+  type Currency,
+  type TimeseriesProgress,
+} from './lib/api';
+import { formatAmount, formatRate, setRoundingMode, type RoundingMode } from './lib/format';
+import { amountInputText, parseAmount, readsAsPlainNumber } from './lib/amount';
+import { errorMessage } from './lib/errors';
+import { inverse, isZero, rational, toNumber, type Rational } from './lib/money';
+import { conversionToCSV, conversionToJSON, downloadFile, exportFileName } from './lib/export';
+import { presetRange, validateRange } from './lib/ranges';
+import { parseUrlState, type UrlState } from './lib/urlState';
+import { budgetLevel, WARN_AT } from './lib/usage';
+import { apiKeyMissing as isApiKeyMissing, getConfig } from './lib/config';
+import { addToHistory, HISTORY_KEY, isHistoryList, type HistoryEntry } from './lib/history';
 import { useDebounced } from './hooks/useDebounced';
+import { useOfflineStatus } from './hooks/useOfflineStatus';
+import { useApiUsage } from './hooks/useApiUsage';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useUrlSync } from './hooks/useUrlSync';
+import { useRoundingMode } from './hooks/useRoundingMode';
+
+const DEFAULTS = { from: 'USD', to: 'EUR', amount: '1', range: '1M' as RangeChoice };
 
 export default function App() {
   const [currencies, setCurrencies] = useState<Currency[]>([]);
   const [loadingCur, setLoadingCur] = useState(true);
   const [errCur, setErrCur] = useState<string | null>(null);
 
-  const [fromCode, setFromCode] = useState('USD');
-  const [toCode, setToCode] = useState('EUR');
-  const [amountRaw, setAmountRaw] = useState('1');
+  // A shared link (?from=GBP&to=JPY&amount=2500&range=90) sets the starting state
+  const [initialUrl] = useState(() => parseUrlState(window.location.search));
+  const [linkNotice, setLinkNotice] = useState<string | null>(null);
+
+  const [fromCode, setFromCode] = useState(initialUrl.from ?? DEFAULTS.from);
+  const [toCode, setToCode] = useState(initialUrl.to ?? DEFAULTS.to);
+  // links and history hold plain numbers; the field holds text in the user's locale
+  const [amountRaw, setAmountRaw] = useState(() =>
+    initialUrl.amount !== undefined ? amountInputText(initialUrl.amount) : DEFAULTS.amount,
+  );
 
-  const amount = useMemo(() => Number(amountRaw) || 0, [amountRaw]);
+  // Accepts "1.234,56", "$1,200", "2.5k" and "120*3 + 45.5"; errors show inline
+  const parsedAmount = useMemo(() => parseAmount(amountRaw), [amountRaw]);
+  const amountError = !parsedAmount.ok
+    ? parsedAmount.error
+    : parsedAmount.value < 0
+      ? 'The amount can’t be negative.'
+      : null;
+  const amount = parsedAmount.ok && !amountError ? parsedAmount.value : 0;
+  // Preview the value whenever the input isn't a plain number meaning just that,
+  // e.g. "1.234" read as 1234 in de-DE
+  const amountHint =
+    parsedAmount.ok && !readsAsPlainNumber(amountRaw, parsedAmount.value)
+      ? `= ${parsedAmount.value.toLocaleString(undefined, { maximumFractionDigits: 8 })}`
+      : null;
   const debouncedAmount = useDebounced(amount, 300);
 
-  const [converted, setConverted] = useState<number | null>(null);
-  const [rate, setRate] = useState<number | null>(null);
+  // exact values from the API layer; rounded only when displayed
+  const [converted, setConverted] = useState<Rational | null>(null);
+  const [rate, setRate] = useState<Rational | null>(null);
+  // full answer behind converted/rate, kept for exports
+  const [conversion, setConversion] = useState<{
+    from: string;
+    to: string;
+    amount: number;
+    res: ConvertResponse;
+    fetchedAt: string;
+  } | null>(null);
   const [loadingConv, setLoadingConv] = useState(false);
   const [errConv, setErrConv] = useState<string | null>(null);
 
+  const [history, setHistory] = usePersistentState<HistoryEntry[]>(HISTORY_KEY, [], isHistoryList);
+
   // chart state
-  const [rangeDays, setRangeDays] = useState(30); // 7, 30, 90
+  const [range, setRange] = useState<RangeChoice>(initialUrl.range ?? DEFAULTS.range);
+  const [customStart, setCustomStart] = useState(() => initialUrl.start ?? presetRange('3M').start);
+  const [customEnd, setCustomEnd] = useState(() => initialUrl.end ?? presetRange('3M').end);
   const [series, setSeries] = useState<{ date: string; rate: number }[]>([]);
   const [loadingSeries, setLoadingSeries] = useState(false);
-  const [errSeries, setErrSeries] = useState<string | null>(null);
+  const [seriesProgress, setSeriesProgress] = useState<TimeseriesProgress | null>(null);
+  const [seriesSource, setSeriesSource] = useState<{ source?: string; fetchedAt: string } | null>(null);
+  // the error itself, so the chart can tell an invalid key from a dropped connection
+  const [errSeries, setErrSeries] = useState<unknown>(null);
+  // bumped by the chart's Retry button
+  const [seriesAttempt, setSeriesAttempt] = useState(0);
 
   // Load currencies
   useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
     (async () => {
       try {
         setLoadingCur(true);
         setErrCur(null);
-        const items = await getCurrencies('fiat');
-        setCurrencies(items);
-      } catch (e: any) {
-        setErrCur(e?.message || 'Failed to load currencies.');
+        // Crypto is optional: a failing crypto list shouldn't hide fiat
+        const [fiat, crypto] = await Promise.all([
+          getCurrencies('fiat', { signal }),
+          getCurrencies('crypto', { signal }).catch(() => [] as Currency[]),
+        ]);
+        if (!signal.aborted) setCurrencies(mergeCurrencies(fiat, crypto));
+      } catch (e: unknown) {
+        if (!signal.aborted) setErrCur(errorMessage(e, 'Failed to load currencies.'));
       } finally {
-        setLoadingCur(false);
+        if (!signal.aborted) setLoadingCur(false);
       }
     })();
+    return () => controller.abort();
   }, []);
 
   // Convert on changes (debounced amount)
   useEffect(() => {
-    let cancelled = false;
+    // Aborting cancels the network calls, not just the state updates
+    const controller = new AbortController();
+    const { signal } = controller;
     (async () => {
       if (!debouncedAmount || debouncedAmount < 0 || !fromCode || !toCode) {
         setConverted(null);
         setRate(null);
+        setConversion(null);
         return;
       }
       try {
         setLoadingConv(true);
         setErrConv(null);
-        const res = await convertOnce({ from: fromCode, to: toCode, amount: debouncedAmount });
-        if (!cancelled) {
-          setConverted(res.result);
-          setRate(res.rate ?? (debouncedAmount ? res.result / debouncedAmount : null));
+        const res = await convertOnce({
+          from: fromCode,
+          to: toCode,
+          amount: debouncedAmount,
+          signal,
+        });
+        if (!signal.aborted) {
+          setConverted(res.exact?.result ?? rational(res.result));
+          setRate(res.exact?.rate ?? (res.rate !== undefined ? rational(res.rate) : null));
+          setConversion({
+            from: fromCode,
+            to: toCode,
+            amount: debouncedAmount,
+            res,
+            fetchedAt: new Date().toISOString(),
+          });
+          setHistory((h) =>
+            addToHistory(h, {
+              from: fromCode,
+              to: toCode,
+              amount: debouncedAmount,
+              result: res.result,
+              rate: res.rate ?? res.result / debouncedAmount,
+              at: Date.now(),
+              fallback: res.meta?.fallback === true,
+              offline: res.meta?.offline === true,
+            }),
+          );
         }
-      } catch (e: any) {
-        if (!cancelled) {
-          setErrConv(e?.message || 'Conversion failed.');
+      } catch (e: unknown) {
+        if (!signal.aborted) {
+          setErrConv(errorMessage(e, 'Conversion failed.'));
           setConverted(null);
           setRate(null);
+          setConversion(null);
         }
       } finally {
-        if (!cancelled) setLoadingConv(false);
+        if (!signal.aborted) setLoadingConv(false);
       }
     })();
-    return () => {
-      cancelled = true;
-    };
-  }, [fromCode, toCode, debouncedAmount]);
+    return () => controller.abort();
+  }, [fromCode, toCode, debouncedAmount, setHistory]);
+
+  // Resolved chart dates; a custom range is only used once it's valid
+  const rangeError = range === 'custom' ? validateRange(customStart, customEnd) : null;
+  const { start: rangeStart, end: rangeEnd } = useMemo(
+    () => (range === 'custom' ? { start: customStart, end: customEnd } : presetRange(range)),
+    [range, customStart, customEnd],
+  );
+
+  // Keep the URL in step with the form; back/forward restores earlier states
+  const restoreFromUrl = useCallback((state: UrlState) => {
+    setFromCode(state.from ?? DEFAULTS.from);
+    setToCode(state.to ?? DEFAULTS.to);
+    setAmountRaw(state.amount !== undefined ? amountInputText(state.amount) : DEFAULTS.amount);
+    setRange(state.range ?? DEFAULTS.range);
+    if (state.start && state.end) {
+      setCustomStart(state.start);
+      setCustomEnd(state.end);
+    }
+  }, []);
+  const { replaceNext } = useUrlSync(
+    {
+      from: fromCode,
+      to: toCode,
+      // the evaluated value, so links stay readable whatever was typed
+      amount: parsedAmount.ok && !amountError ? parsedAmount.value : undefined,
+      range,
+      start: range === 'custom' ? customStart : undefined,
+      end: range === 'custom' ? customEnd : undefined,
+    },
+    restoreFromUrl,
+  );
+
+  // Codes from a link are only trusted once the currency list confirms them
+  useEffect(() => {
+    if (!currencies.length) return;
+    const known = new Set(currencies.map((c) => c.code));
+    const unknown = [fromCode, toCode].filter((c) => !known.has(c));
+    if (!unknown.length) return;
+
+    // the corrected link replaces the broken one instead of adding a history step
+    replaceNext();
+    if (!known.has(fromCode)) setFromCode(DEFAULTS.from);
+    if (!known.has(toCode)) setToCode(DEFAULTS.to);
+    setLinkNotice(`Unknown currency ${unknown.join(', ')} in the link; showing defaults instead.`);
+  }, [currencies, fromCode, toCode, replaceNext]);
 
   // Load historical for the chart
   useEffect(() => {
-    let cancelled = false;
+    // Aborting cancels the network calls, not just the state updates
+    const controller = new AbortController();
+    const { signal } = controller;
     (async () => {
+      if (rangeError) return;
       try {
         setLoadingSeries(true);
+        setSeriesProgress(null);
         setErrSeries(null);
-        const end = new Date();
-        const start = new Date();
-        start.setDate(end.getDate() - (rangeDays - 1));
-        const toISO = (d: Date) => d.toISOString().slice(0, 10);
+        let source: string | undefined;
         const pts = await getTimeseries({
           from: fromCode,
           to: toCode,
-          start: toISO(start),
-          end: toISO(end),
+          start: rangeStart,
+          end: rangeEnd,
+          signal,
+          onProgress: (p) => {
+            if (!signal.aborted) setSeriesProgress(p);
+          },
+          onSource: (s) => {
+            source = s;
+          },
         });
-        if (!cancelled) setSeries(pts);
-      } catch (e: any) {
-        if (!cancelled) setErrSeries(e?.message || 'Failed to load historical data.');
+        if (!signal.aborted) {
+          setSeries(pts);
+          setSeriesSource({ source, fetchedAt: new Date().toISOString() });
+        }
+      } catch (e: unknown) {
+        if (!signal.aborted) setErrSeries(e);
       } finally {
-        if (!cancelled) setLoadingSeries(false);
+        if (!signal.aborted) setLoadingSeries(false);
       }
     })();
-    return () => {
-      cancelled = true;
-    };
-  }, [fromCode, toCode, rangeDays]);
+    return () => controller.abort();
+  }, [fromCode, toCode, rangeStart, rangeEnd, rangeError, seriesAttempt]);
+
+  // Read here so every amount on the page re-renders when the mode changes
+  const rounding = useRoundingMode();
 
-  const apiKeyMissing = !import.meta.env.VITE_CURRENCYBEACON_API_KEY;
+  const { dailyBudget, monthlyBudget } = getConfig();
+  const apiKeyMissing = isApiKeyMissing();
+  const offline = useOfflineStatus();
+  const usage = useApiUsage();
+  const budget = [
+    { period: 'daily', level: budgetLevel(usage.today, dailyBudget) },
+    { period: 'monthly', level: budgetLevel(usage.thisMonth, monthlyBudget) },
+  ].find((b) => b.level !== 'ok');
 
   return (
     <div className="mx-auto mt-10 max-w-[720px] rounded-2xl border border-gray-200 bg-white p-6 shadow-sm">
       <h1 className="mb-4 text-2xl font-semibold">Currency Converter</h1>
 
+      {offline.offline && (
+        <div role="status" className="mb-4 rounded-md border border-sky-300 bg-sky-50 p-3 text-sm">
+          <strong>Offline</strong> – rates as of{' '}
+          {offline.asOf
+            ? new Date(offline.asOf).toLocaleDateString(undefined, {
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+                // a "YYYY-MM-DD" day parses as UTC midnight; local time would show the day before west of UTC
+                timeZone: 'UTC',
+              })
+            : 'an earlier visit'}
+          .
+        </div>
+      )}
+
       {apiKeyMissing && (
         <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm">
           <strong>API key missing.</strong> Add <code>VITE_CURRENCYBEACON_API_KEY</code> to
-          <code>.env</code> to enable live conversion and historical data.
+          <code>.env</code>, or point <code>VITE_CURRENCYBEACON_BASE</code> at the proxy server, to
+          enable live conversion and historical data. Until then, rates come from the fallback
+          providers (ECB reference rates via Frankfurter).
+        </div>
+      )}
+
+      {!apiKeyMissing && budget && (
+        <div
+          role="status"
+          className={`mb-4 rounded-md border p-3 text-sm ${
+            budget.level === 'over' ? 'border-red-300 bg-red-50' : 'border-amber-300 bg-amber-50'
+          }`}
+        >
+          {budget.level === 'over' ? (
+            <>
+              <strong>API budget used up.</strong> The {budget.period} request budget is spent;
+              further calls may be refused until it resets.
+            </>
+          ) : (
+            <>
+              <strong>API budget almost used.</strong> Over {WARN_AT * 100}% of the {budget.period}{' '}
+              request budget is spent.
+            </>
+          )}
+        </div>
+      )}
+
+      {linkNotice && (
+        <div
+          role="status"
+          className="mb-4 flex items-start justify-between gap-3 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm"
+        >
+          <span>{linkNotice}</span>
+          <button
+            type="button"
+            onClick={() => setLinkNotice(null)}
+            aria-label="Dismiss"
+            className="text-gray-500 hover:text-gray-900"
+          >
+            ×
+          </button>
         </div>
       )}
 
@@ -132,6 +358,8 @@ export default function App() {
             label="Amount"
             value={amountRaw}
             onChange={setAmountRaw}
+            error={amountError}
+            hint={amountHint}
           />
         </div>
 
@@ -152,7 +380,7 @@ export default function App() {
           />
           <Amount
             label="Converted"
-            value={converted !== null ? converted.toFixed(4) : ''}
+            value={converted !== null ? formatAmount(converted, toCode) : ''}
             readOnly
           />
         </div>
@@ -162,37 +390,109 @@ export default function App() {
         <p className="mt-4 text-sm text-red-700">{errCur || errConv}</p>
       )}
 
-      {rate && (
+      {rate && !isZero(rate) && (
         <p className="mt-4 text-sm text-gray-600">
-          1 {fromCode} ≈ {rate.toFixed(6)} {toCode} &nbsp;•&nbsp; 1 {toCode} ≈{' '}
-          {(1 / rate).toFixed(6)} {fromCode}
+          1 {fromCode} ≈ {formatRate(rate, fromCode, toCode)} {toCode} &nbsp;•&nbsp; 1 {toCode} ≈{' '}
+          {formatRate(inverse(rate), toCode, fromCode)} {fromCode}
         </p>
       )}
 
-      <div className="mt-3 flex gap-1.5">
-        {[7, 30, 90].map((n) => (
-          <button
-            key={n}
-            onClick={() => setRangeDays(n)}
-            className={[
-              'h-8 rounded-md border px-2.5 text-xs',
-              n === rangeDays
-                ? 'border-gray-900 bg-gray-900 text-white'
-                : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50',
-            ].join(' ')}
+      <PastValue
+        from={fromCode}
+        to={toCode}
+        amount={debouncedAmount}
+        current={conversion && converted && { ...conversion, value: converted }}
+      />
+
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-1 text-[11px] text-gray-500">
+          Rounding
+          <select
+            value={rounding}
+            onChange={(e) => setRoundingMode(e.target.value as RoundingMode)}
+            className="h-6 rounded-md border border-gray-300 bg-white px-1 text-[11px] text-gray-900"
           >
-            {n === 7 ? '7D' : n === 30 ? '1M' : '3M'}
-          </button>
-        ))}
+            <option value="half-up">Half up</option>
+            <option value="half-even">Half even</option>
+          </select>
+        </label>
+        {conversion && (
+          <ExportButtons
+            label="Export conversion"
+            actions={(['csv', 'json'] as const).map((ext) => ({
+              label: ext.toUpperCase(),
+              run: () => {
+                const { amount: amt, res, ...meta } = conversion;
+                downloadFile(
+                  exportFileName(['conversion', `${meta.from}-${meta.to}`, meta.fetchedAt.slice(0, 10)], ext),
+                  ext === 'csv' ? conversionToCSV(amt, res, meta) : conversionToJSON(amt, res, meta),
+                  ext === 'csv' ? 'text/csv' : 'application/json',
+                );
+              },
+            }))}
+          />
+        )}
       </div>
 
+      <FeesPanel from={fromCode} to={toCode} amount={debouncedAmount} rate={rate} />
+
+      <RangePicker
+        value={range}
+        onChange={setRange}
+        customStart={customStart}
+        customEnd={customEnd}
+        onCustomChange={(start, end) => {
+          setCustomStart(start);
+          setCustomEnd(end);
+        }}
+        error={rangeError}
+      />
+
       <RateChart
         data={series}
         from={fromCode}
         to={toCode}
         loading={loadingSeries}
+        progress={seriesProgress}
         error={errSeries}
+        onRetry={() => setSeriesAttempt((n) => n + 1)}
+        source={seriesSource?.source}
+        fetchedAt={seriesSource?.fetchedAt}
       />
+
+      <CompareChart
+        from={fromCode}
+        to={toCode}
+        start={rangeStart}
+        end={rangeEnd}
+        currencies={currencies}
+        disabled={!!rangeError}
+      />
+
+      <Watchlist from={fromCode} amount={debouncedAmount} currencies={currencies} />
+
+      <AlertsPanel
+        from={fromCode}
+        to={toCode}
+        rate={rate && toNumber(rate)}
+        currencies={currencies}
+      />
+
+      <HistoryPanel
+        entries={history}
+        currencies={currencies}
+        onRestore={(e) => {
+          setFromCode(e.from);
+          setToCode(e.to);
+          setAmountRaw(amountInputText(e.amount));
+        }}
+        onRemove={(id) => setHistory((h) => h.filter((e) => e.id !== id))}
+        onClear={() => setHistory([])}
+      />
+
+      <BatchPanel defaultTarget={toCode} currencies={currencies} />
+
+      {!apiKeyMissing && <UsageMeter />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import CurrencySelect from './CurrencySelect';
+import type { Currency } from '../lib/api';
+import { describeRule, type AlertRule } from '../lib/alerts';
+import { formatRate } from '../lib/format';
+import { useAlerts } from '../hooks/useAlerts';
+
+type Props = {
+  from: string;
+  to: string;
+  /** current converter rate, used to prefill the level */
+  rate: number | null;
+  currencies: Currency[];
+};
+
+type Kind = AlertRule['kind'];
+
+const KINDS: { id: Kind; label: string }[] = [
+  { id: 'above', label: 'Rises to or above' },
+  { id: 'below', label: 'Falls to or below' },
+  { id: 'move', label: 'Moves by % within days' },
+];
+
+/**
+ * Rate alerts: rules per pair, checked in the background while the app is
+ * open, firing a browser notification (when allowed) and an entry in the list.
+ */
+export default function AlertsPanel({ from, to, rate, currencies }: Props) {
+  const {
+    rules,
+    events,
+    error,
+    permission,
+    addRule,
+    removeRule,
+    toggleRule,
+    clearEvents,
+    requestPermission,
+  } = useAlerts();
+
+  // The form follows the converter's pair until the user picks another one
+  const [pair, setPair] = useState<{ from: string; to: string } | null>(null);
+  const ruleFrom = pair?.from ?? from;
+  const ruleTo = pair?.to ?? to;
+
+  const [kind, setKind] = useState<Kind>('above');
+  const [level, setLevel] = useState('');
+  const [percent, setPercent] = useState('2');
+  const [days, setDays] = useState('7');
+
+  const levelValue = Number(level);
+  const percentValue = Number(percent);
+  const daysValue = Math.round(Number(days));
+  const formError =
+    ruleFrom === ruleTo
+      ? 'Pick two different currencies.'
+      : kind === 'move'
+        ? !(percentValue > 0) || !(daysValue >= 1 && daysValue <= 365)
+          ? 'Enter a positive % and 1–365 days.'
+          : null
+        : !(levelValue > 0)
+          ? 'Enter a level above 0.'
+          : null;
+
+  const add = () => {
+    if (formError) return;
+    addRule(
+      kind === 'move'
+        ? { from: ruleFrom, to: ruleTo, kind, percent: percentValue, days: daysValue }
+        : { from: ruleFrom, to: ruleTo, kind, level: levelValue },
+    );
+    setLevel('');
+  };
+
+  const fmtTime = (at: number) =>
+    new Date(at).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const input =
+    'h-10 rounded-md border border-gray-300 bg-white px-3 text-sm outline-none focus:border-gray-400';
+  const smallButton =
+    'h-7 rounded-md border border-gray-300 bg-white px-2 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-40';
+
+  return (
+    <section className="mt-6">
+      <div className="mb-2 flex items-baseline justify-between">
+        <h2 className="text-sm font-semibold">Rate alerts</h2>
+        {permission === 'default' && (
+          <button
+            type="button"
+            onClick={requestPermission}
+            className="text-xs text-gray-500 underline hover:text-gray-900"
+          >
+            Enable notifications
+          </button>
+        )}
+        {permission === 'denied' && (
+          <span className="text-xs text-gray-500">Notifications blocked; alerts show here only</span>
+        )}
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-700">{error}</p>}
+
+      {rules.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-100 rounded-md border border-gray-200">
+          {rules.map((r) => (
+            <li key={r.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+              <div className="min-w-0 flex-1">
+                <div className={r.active ? 'font-medium' : 'font-medium text-gray-400'}>
+                  {describeRule(r)}
+                  {r.triggered && r.active && (
+                    <span className="ml-2 rounded bg-amber-100 px-1.5 text-[11px] text-amber-800">
+                      triggered
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {!r.active
+                    ? 'Paused'
+                    : r.lastRate !== undefined && r.lastCheckedAt
+                      ? `Last ${formatRate(r.lastRate, r.from, r.to)} ${r.to} at ${fmtTime(r.lastCheckedAt)}`
+                      : 'Not checked yet'}
+                </div>
+              </div>
+              <button type="button" onClick={() => toggleRule(r.id)} className={smallButton}>
+                {r.active ? 'Pause' : 'Resume'}
+              </button>
+              <button
+                type="button"
+                onClick={() => removeRule(r.id)}
+                aria-label={`Delete alert ${describeRule(r)}`}
+                className={`${smallButton} w-7 px-0`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <CurrencySelect
+          label="Alert from"
+          value={ruleFrom}
+          onChange={(code) => setPair({ from: code, to: ruleTo })}
+          options={currencies}
+        />
+        <CurrencySelect
+          label="Alert to"
+          value={ruleTo}
+          onChange={(code) => setPair({ from: ruleFrom, to: code })}
+          options={currencies}
+        />
+      </div>
+      <div className="mt-2 grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+        <label className="grid gap-1.5">
+          <span className="text-xs text-gray-500">When 1 {ruleFrom}</span>
+          <select value={kind} onChange={(e) => setKind(e.target.value as Kind)} className={input}>
+            {KINDS.map((k) => (
+              <option key={k.id} value={k.id}>
+                {k.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {kind === 'move' ? (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="grid gap-1.5">
+              <span className="text-xs text-gray-500">Move %</span>
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="any"
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                className={input}
+              />
+            </label>
+            <label className="grid gap-1.5">
+              <span className="text-xs text-gray-500">Days</span>
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className={input}
+              />
+            </label>
+          </div>
+        ) : (
+          <label className="grid gap-1.5">
+            <span className="text-xs text-gray-500">Level in {ruleTo}</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="any"
+              value={level}
+              placeholder={rate && ruleFrom === from && ruleTo === to ? String(rate) : ''}
+              onChange={(e) => setLevel(e.target.value)}
+              className={input}
+            />
+          </label>
+        )}
+        <button
+          type="button"
+          onClick={add}
+          disabled={!!formError}
+          title={formError ?? undefined}
+          className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          Add alert
+        </button>
+      </div>
+
+      {events.length > 0 && (
+        <div className="mt-4">
+          <div className="mb-1 flex items-baseline justify-between">
+            <h3 className="text-xs font-semibold text-gray-700">Fired alerts</h3>
+            <button
+              type="button"
+              onClick={clearEvents}
+              className="text-xs text-gray-500 underline hover:text-gray-900"
+            >
+              Clear
+            </button>
+          </div>
+          <ul aria-live="polite" className="max-h-48 overflow-y-auto text-xs text-gray-700">
+            {events.map((e) => (
+              <li key={e.id} className="py-0.5">
+                <span className="text-gray-500">{fmtTime(e.at)}</span> &nbsp;{e.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
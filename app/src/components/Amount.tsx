@@ -1,11 +1,15 @@
+import { useId } from 'react';
+
 type Props = {
   label: string;
   value: string | number;
   onChange?: (v: string) => void;  // omit when readOnly
   readOnly?: boolean;
-  min?: number;
-  step?: number | 'any';
   disabled?: boolean;
+  /** shown under the field in red; marks the input invalid */
+  error?: string | null;
+  /** shown under the field when there is no error, e.g. "= 405.50" */
+  hint?: string | null;
 };
 
 export default function Amount({
@@ -13,35 +17,48 @@ export default function Amount({
   value,
   onChange,
   readOnly = false,
-  min = 0,
-  step = 'any',
   disabled = false,
+  error,
+  hint,
 }: Props) {
+  const noteId = useId();
   const inputClass =
     'h-10 rounded-md border px-3 text-sm outline-none transition ' +
     (readOnly
       ? 'border-gray-300 bg-gray-50'
-      : 'border-gray-300 bg-white focus:border-gray-400') +
+      : error
+        ? 'border-red-400 bg-white focus:border-red-500'
+        : 'border-gray-300 bg-white focus:border-gray-400') +
     (disabled ? ' opacity-50' : '');
 
-  // use number input when editable; text when readOnly
-  const type = readOnly ? 'text' : 'number';
+  const note = error || hint;
 
   return (
     <label className="grid gap-1.5">
       <span className="text-xs text-gray-500">{label}</span>
+      {/* text even when editable: the value may be "1.234,56" or "120*3 + 45.5" */}
       <input
-        type={type}
-        inputMode="decimal"
+        type="text"
+        inputMode={readOnly ? undefined : 'decimal'}
+        autoComplete="off"
         value={String(value)}
         onChange={onChange ? (e) => onChange(e.target.value) : undefined}
         readOnly={readOnly}
         aria-readonly={readOnly}
-        min={readOnly ? undefined : min}
-        step={readOnly ? undefined : step}
+        aria-invalid={!!error}
+        aria-describedby={note ? noteId : undefined}
         disabled={disabled}
         className={inputClass}
       />
+      {note && (
+        <span
+          id={noteId}
+          aria-live="polite"
+          className={error ? 'text-xs text-red-700' : 'text-xs text-gray-500 tabular-nums'}
+        >
+          {note}
+        </span>
+      )}
     </label>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,301 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import CurrencySelect from './CurrencySelect';
+import ExportButtons from './ExportButtons';
+import type { Currency, TimeseriesProgress } from '../lib/api';
+import { isAbortError } from '../lib/http';
+import {
+  batchToCSV,
+  convertRows,
+  guessMapping,
+  parseCSV,
+  readRows,
+  type BatchResult,
+  type ColumnMapping,
+} from '../lib/batch';
+import { downloadFile, exportFileName } from '../lib/export';
+import { errorMessage } from '../lib/errors';
+import { formatAmount, formatRate } from '../lib/format';
+import { add, ZERO } from '../lib/money';
+import { usePersistentState } from '../hooks/usePersistentState';
+
+type Props = {
+  /** reporting currency until the user picks one */
+  defaultTarget: string;
+  currencies: Currency[];
+};
+
+// Rows shown on screen; the download always has all of them
+const PREVIEW_ROWS = 20;
+
+const FIELDS: { key: 'date' | 'amount' | 'currency'; label: string }[] = [
+  { key: 'date', label: 'Date column' },
+  { key: 'amount', label: 'Amount column' },
+  { key: 'currency', label: 'Currency column' },
+];
+
+const isCode = (v: unknown): v is string => typeof v === 'string' && /^[A-Z0-9]{2,10}$/.test(v);
+
+/**
+ * Batch mode: a pasted or uploaded CSV (date, amount, currency per row)
+ * converted into one reporting currency at each row's own date.
+ */
+export default function BatchPanel({ defaultTarget, currencies }: Props) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [target, setTarget] = usePersistentState('cb_batch_target_v1', defaultTarget, isCode);
+  // null until the user changes the guessed mapping
+  const [mappingEdit, setMappingEdit] = useState<ColumnMapping | null>(null);
+  const [results, setResults] = useState<BatchResult[] | null>(null);
+  const [progress, setProgress] = useState<TimeseriesProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel lookups still running when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const table = useMemo(() => parseCSV(text), [text]);
+  const mapping = mappingEdit ?? guessMapping(table);
+  const columns = Math.max(0, ...table.map((r) => r.length));
+  const header = mapping.hasHeader ? table[0] : undefined;
+  const columnName = (i: number) => (header?.[i]?.trim() ? header[i].trim() : `Column ${i + 1}`);
+
+  const resetInput = (value: string, name: string | null) => {
+    abortRef.current?.abort();
+    setText(value);
+    setFileName(name);
+    setMappingEdit(null);
+    setResults(null);
+    setError(null);
+  };
+
+  const updateMapping = (patch: Partial<ColumnMapping>) => {
+    setMappingEdit({ ...mapping, ...patch });
+    setResults(null);
+  };
+
+  const run = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setRunning(true);
+    setError(null);
+    setResults(null);
+    setProgress(null);
+    try {
+      const rows = readRows(table, mapping, new Date().toISOString().slice(0, 10));
+      const out = await convertRows(rows, target, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      if (!controller.signal.aborted) setResults(out);
+    } catch (e: unknown) {
+      if (!isAbortError(e)) setError(errorMessage(e, 'Batch conversion failed.'));
+    } finally {
+      if (!controller.signal.aborted) {
+        setRunning(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    setRunning(false);
+    setProgress(null);
+  };
+
+  const converted = results?.filter((r) => r.converted) ?? [];
+  const failed = (results?.length ?? 0) - converted.length;
+  const total = converted.reduce((sum, r) => add(sum, r.converted!), ZERO);
+  const days = new Set(converted.map((r) => r.rateDate)).size;
+
+  const input =
+    'h-10 rounded-md border border-gray-300 bg-white px-3 text-sm outline-none focus:border-gray-400';
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-sm font-semibold">Batch conversion</h2>
+
+      <div className="grid gap-2">
+        <textarea
+          value={text}
+          onChange={(e) => resetInput(e.target.value, null)}
+          placeholder={'date,amount,currency\n2024-03-01,120.50,EUR\n2024-03-04,9800,JPY'}
+          rows={4}
+          spellCheck={false}
+          aria-label="CSV rows"
+          className="rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-xs outline-none focus:border-gray-400"
+        />
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <label className="cursor-pointer rounded-md border border-gray-300 bg-white px-2 py-1 text-gray-700 hover:bg-gray-50">
+            Upload CSV…
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv"
+              className="sr-only"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) resetInput(await file.text(), file.name);
+              }}
+            />
+          </label>
+          {fileName && <span>{fileName}</span>}
+          {table.length > 0 && (
+            <span>
+              {table.length - (mapping.hasHeader ? 1 : 0)} rows, {columns} columns
+            </span>
+          )}
+        </div>
+      </div>
+
+      {table.length > 0 && (
+        <>
+          <div className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-4">
+            {FIELDS.map((f) => (
+              <label key={f.key} className="grid gap-1.5">
+                <span className="text-xs text-gray-500">{f.label}</span>
+                <select
+                  value={mapping[f.key]}
+                  onChange={(e) => updateMapping({ [f.key]: Number(e.target.value) })}
+                  className={input}
+                >
+                  {Array.from({ length: columns }, (_, i) => (
+                    <option key={i} value={i}>
+                      {columnName(i)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="grid gap-1.5">
+              <span className="text-xs text-gray-500">Dates like 03/04/2024 are</span>
+              <select
+                value={mapping.dateOrder}
+                onChange={(e) => updateMapping({ dateOrder: e.target.value as ColumnMapping['dateOrder'] })}
+                className={input}
+              >
+                <option value="dmy">day/month/year</option>
+                <option value="mdy">month/day/year</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="mt-2 flex flex-wrap items-end gap-2">
+            <div className="w-56">
+              <CurrencySelect
+                label="Reporting currency"
+                value={target}
+                onChange={(code) => {
+                  setTarget(code);
+                  setResults(null);
+                }}
+                options={currencies}
+              />
+            </div>
+            <label className="flex h-10 items-center gap-1.5 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={(e) => updateMapping({ hasHeader: e.target.checked })}
+              />
+              First row is a header
+            </label>
+            <button
+              type="button"
+              onClick={running ? cancel : run}
+              className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm hover:bg-gray-50"
+            >
+              {running ? 'Cancel' : 'Convert all'}
+            </button>
+            {running && progress && (
+              <span className="text-xs text-gray-500">
+                {progress.loaded}/{progress.total} days
+              </span>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+
+      {results && (
+        <div className="mt-3">
+          <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2 text-xs text-gray-600">
+            <span>
+              {converted.length} rows converted with {days} daily rates
+              {failed > 0 && <span className="text-red-700">, {failed} with errors</span>} &nbsp;•&nbsp;
+              Total {formatAmount(total, target)}
+            </span>
+            <ExportButtons
+              label="Download results"
+              actions={[
+                {
+                  label: 'CSV',
+                  run: () =>
+                    downloadFile(
+                      exportFileName(
+                        [fileName?.replace(/\.\w+$/, '') || 'batch', target, new Date().toISOString().slice(0, 10)],
+                        'csv',
+                      ),
+                      batchToCSV(header, results, target),
+                      'text/csv',
+                    ),
+                },
+              ]}
+            />
+          </div>
+
+          <div className="overflow-x-auto rounded-md border border-gray-200">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-500">
+                <tr>
+                  <th className="px-2 py-1 text-left font-normal">Row</th>
+                  <th className="px-2 py-1 text-left font-normal">Date</th>
+                  <th className="px-2 py-1 text-right font-normal">Amount</th>
+                  <th className="px-2 py-1 text-right font-normal">Rate</th>
+                  <th className="px-2 py-1 text-right font-normal">{target}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 tabular-nums">
+                {results.slice(0, PREVIEW_ROWS).map((r) => (
+                  <tr key={r.line}>
+                    <td className="px-2 py-1 text-gray-500">{r.line}</td>
+                    <td className="px-2 py-1">{r.date ?? r.cells[mapping.date]}</td>
+                    <td className="px-2 py-1 text-right">
+                      {r.amount !== undefined && r.currency
+                        ? `${r.amount.toLocaleString()} ${r.currency}`
+                        : r.cells[mapping.amount]}
+                    </td>
+                    {r.error ? (
+                      <td colSpan={2} className="px-2 py-1 text-right text-red-700">
+                        {r.error}
+                      </td>
+                    ) : (
+                      <>
+                        <td className="px-2 py-1 text-right text-gray-600">
+                          {formatRate(r.rate!, r.currency!, target)}
+                          {r.rateDate !== r.date && (
+                            <div className="text-[11px] text-gray-400">from {r.rateDate}</div>
+                          )}
+                        </td>
+                        <td className="px-2 py-1 text-right">{formatAmount(r.converted!, target)}</td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {results.length > PREVIEW_ROWS && (
+            <p className="mt-1 text-xs text-gray-500">
+              Showing {PREVIEW_ROWS} of {results.length} rows; the download has all of them.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
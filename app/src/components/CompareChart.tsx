@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import CurrencySelect from './CurrencySelect';
+import {
+  getMultiTimeseries,
+  type CurrencyPair,
+  type Currency,
+  type TimeseriesPoint,
+  type TimeseriesProgress,
+} from '../lib/api';
+import { indexSeries, type IndexMode } from '../lib/indicators';
+import { errorMessage } from '../lib/errors';
+import { usePersistentState } from '../hooks/usePersistentState';
+
+type Props = {
+  from: string;
+  to: string;
+  start: string;
+  end: string;
+  currencies: Currency[];
+  disabled?: boolean;
+};
+
+const DEFAULT_PAIRS: CurrencyPair[] = [
+  { from: 'USD', to: 'GBP' },
+  { from: 'USD', to: 'JPY' },
+];
+
+const COLORS = ['#2563eb', '#f59e0b', '#059669', '#dc2626', '#8b5cf6', '#0891b2', '#db2777', '#65a30d'];
+
+const isPairList = (v: unknown): v is CurrencyPair[] =>
+  Array.isArray(v) &&
+  v.every(
+    (p) =>
+      p &&
+      typeof p === 'object' &&
+      /^[A-Z]{3,5}$/.test((p as CurrencyPair).from) &&
+      /^[A-Z]{3,5}$/.test((p as CurrencyPair).to),
+  );
+
+const isIndexMode = (v: unknown): v is IndexMode => v === 'index' || v === 'percent';
+
+const keyOf = (p: CurrencyPair) => `${p.from}/${p.to}`;
+
+/**
+ * Plots several pairs on one rebased axis (index = 100 or % change) so their
+ * moves can be compared. The converter's own pair is always the first series;
+ * extra pairs are persisted. Every pair comes from one shared timeseries call.
+ */
+export default function CompareChart({ from, to, start, end, currencies, disabled }: Props) {
+  const [extra, setExtra] = usePersistentState<CurrencyPair[]>('cb_compare_v1', DEFAULT_PAIRS, isPairList);
+  const [mode, setMode] = usePersistentState<IndexMode>('cb_compare_mode_v1', 'index', isIndexMode);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+
+  const [series, setSeries] = useState<Record<string, TimeseriesPoint[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<TimeseriesProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The current pair leads; duplicates of it among the extras are dropped
+  const pairs = useMemo(() => {
+    const seen = new Set<string>();
+    return [{ from, to }, ...extra].filter((p) => {
+      const k = keyOf(p);
+      if (p.from === p.to || seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    });
+  }, [from, to, extra]);
+
+  // Order-insensitive key so toggling or reordering doesn't refetch
+  const pairsKey = useMemo(() => pairs.map(keyOf).sort().join(','), [pairs]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    (async () => {
+      if (disabled || !pairsKey) return;
+      const wanted = pairsKey.split(',').map((k) => {
+        const [f, t] = k.split('/');
+        return { from: f, to: t };
+      });
+      try {
+        setLoading(true);
+        setProgress(null);
+        setError(null);
+        const results = await getMultiTimeseries({
+          pairs: wanted,
+          start,
+          end,
+          signal,
+          onProgress: (p) => {
+            if (!signal.aborted) setProgress(p);
+          },
+        });
+        if (!signal.aborted) {
+          setSeries(Object.fromEntries(wanted.map((p, i) => [keyOf(p), results[i] ?? []])));
+        }
+      } catch (e: unknown) {
+        if (!signal.aborted) {
+          setError(errorMessage(e, 'Failed to load comparison data.'));
+          setSeries({});
+        }
+      } finally {
+        if (!signal.aborted) setLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [pairsKey, start, end, disabled]);
+
+  // One row per date with a rebased value per visible pair
+  const rows = useMemo(() => {
+    const byDate = new Map<string, Record<string, number | string>>();
+    for (const p of pairs) {
+      const k = keyOf(p);
+      for (const pt of indexSeries(series[k] ?? [], mode)) {
+        const row = byDate.get(pt.date) ?? { date: pt.date };
+        row[k] = pt.rate;
+        byDate.set(pt.date, row);
+      }
+    }
+    return [...byDate.values()].sort((a, b) => String(a.date).localeCompare(String(b.date)));
+  }, [pairs, series, mode]);
+
+  const toggle = (k: string) =>
+    setHidden((h) => {
+      const next = new Set(h);
+      if (next.has(k)) next.delete(k);
+      else next.add(k);
+      return next;
+    });
+
+  const remove = (k: string) => setExtra((list) => list.filter((p) => keyOf(p) !== k));
+
+  const [pickFrom, setPickFrom] = useState('USD');
+  const [pickTo, setPickTo] = useState('CHF');
+  const pickKey = keyOf({ from: pickFrom, to: pickTo });
+  const canAdd = pickFrom !== pickTo && !pairs.some((p) => keyOf(p) === pickKey);
+  const add = () => {
+    if (canAdd) setExtra((list) => [...list, { from: pickFrom, to: pickTo }]);
+  };
+
+  const fmtValue = (v: number) =>
+    mode === 'index'
+      ? v.toLocaleString(undefined, { maximumFractionDigits: 2 })
+      : `${v >= 0 ? '+' : ''}${v.toLocaleString(undefined, { maximumFractionDigits: 2 })} %`;
+
+  const hasData = pairs.some((p) => series[keyOf(p)]?.length);
+
+  return (
+    <section className="mt-6">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold">Compare pairs</h2>
+        <div role="group" aria-label="Comparison scale" className="flex gap-1">
+          {(['index', 'percent'] as IndexMode[]).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              aria-pressed={mode === m}
+              className={[
+                'h-6 rounded-md border px-2 text-[11px]',
+                mode === m
+                  ? 'border-gray-900 bg-gray-900 text-white'
+                  : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50',
+              ].join(' ')}
+            >
+              {m === 'index' ? 'Index (start = 100)' : '% change'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Legend doubles as the per-series visibility toggles */}
+      <ul aria-label="Compared pairs" className="mb-2 flex flex-wrap gap-2">
+        {pairs.map((p, i) => {
+          const k = keyOf(p);
+          const shown = !hidden.has(k);
+          const empty = !loading && series[k] && !series[k].length;
+          return (
+            <li key={k} className="flex items-center">
+              <button
+                type="button"
+                onClick={() => toggle(k)}
+                aria-pressed={shown}
+                title={empty ? 'No data for this range' : shown ? `Hide ${k}` : `Show ${k}`}
+                className={[
+                  'flex h-6 items-center gap-1 rounded-md border border-gray-300 px-2 text-[11px]',
+                  shown ? 'bg-white text-gray-900' : 'bg-gray-50 text-gray-400 line-through',
+                ].join(' ')}
+              >
+                <span
+                  aria-hidden
+                  style={{ width: 10, height: 3, borderRadius: 2, background: COLORS[i % COLORS.length] }}
+                />
+                {k}
+                {empty && ' (no data)'}
+              </button>
+              {i > 0 && (
+                <button
+                  type="button"
+                  onClick={() => remove(k)}
+                  aria-label={`Remove ${k}`}
+                  className="ml-0.5 h-6 w-6 rounded-md text-xs text-gray-500 hover:bg-gray-100"
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div style={{ width: '100%', height: 240, border: '1px solid #e5e7eb', borderRadius: 8 }}>
+        {error ? (
+          <div style={{ padding: 16, fontSize: 14, color: '#b91c1c' }}>{error}</div>
+        ) : loading ? (
+          <div style={{ padding: 16, fontSize: 14, opacity: 0.7 }}>
+            {progress && progress.total > 0
+              ? `Loading comparison… loaded ${progress.loaded}/${progress.total} days`
+              : 'Loading comparison…'}
+          </div>
+        ) : !hasData ? (
+          <div style={{ padding: 16, fontSize: 14, opacity: 0.7 }}>
+            No historical data available.
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rows} margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="date"
+                tickFormatter={(d) =>
+                  new Date(d).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+                }
+                minTickGap={28}
+              />
+              <YAxis domain={['auto', 'auto']} tickFormatter={(v) => fmtValue(Number(v))} width={70} />
+              <ReferenceLine y={mode === 'index' ? 100 : 0} stroke="#9ca3af" strokeDasharray="4 3" />
+              <Tooltip
+                formatter={(v) => fmtValue(Number(v))}
+                labelFormatter={(d) =>
+                  new Date(d).toLocaleDateString(undefined, {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric',
+                  })
+                }
+              />
+              {pairs.map((p, i) => {
+                const k = keyOf(p);
+                return hidden.has(k) ? null : (
+                  <Line
+                    key={k}
+                    type="monotone"
+                    dataKey={k}
+                    name={k}
+                    stroke={COLORS[i % COLORS.length]}
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                );
+              })}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="mt-3 grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+        <CurrencySelect label="Pair from" value={pickFrom} onChange={setPickFrom} options={currencies} />
+        <CurrencySelect label="Pair to" value={pickTo} onChange={setPickTo} options={currencies} />
+        <button
+          type="button"
+          onClick={add}
+          disabled={!canAdd}
+          className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          Add pair
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -1,5 +1,8 @@
-import { useMemo } from 'react';
-import type { Currency } from '../lib/api';
+import { useEffect, useId, useMemo, useState, type KeyboardEvent } from 'react';
+import type { Currency, CurrencyType } from '../lib/api';
+import { markRecent, toggleFavorite } from '../lib/currencyPrefs';
+import { searchCurrencies } from '../lib/currencySearch';
+import { useCurrencyPrefs } from '../hooks/useCurrencyPrefs';
 
 type Props = {
   label: string;
@@ -7,31 +10,298 @@ type Props = {
   onChange: (code: string) => void;
   options: Currency[];
   disabled?: boolean;
+  /** false keeps picks out of the shared recently used list */
+  trackRecent?: boolean;
 };
 
-export default function CurrencySelect({ label, value, onChange, options, disabled }: Props) {
+type Filter = 'all' | CurrencyType;
+
+const FILTERS: { id: Filter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'fiat', label: 'Fiat' },
+  { id: 'crypto', label: 'Crypto' },
+];
+
+type Section = { label: string; items: Currency[] };
+
+// Rows PageUp/PageDown move by
+const PAGE = 10;
+
+const getLabel = (opt: Currency) =>
+  opt.name && opt.name.toUpperCase() !== opt.code ? `${opt.name} (${opt.code})` : opt.code;
+
+/**
+ * Currency picker as an ARIA combobox: type to search code, name or symbol,
+ * arrows/PageUp/PageDown/Home/End to move, Enter to pick, Escape to close.
+ * Favorites and recently used currencies are listed first; both are shared by
+ * every picker and survive reloads.
+ */
+export default function CurrencySelect({ label, value, onChange, options, disabled, trackRecent = true }: Props) {
+  const id = useId();
+  const listId = `${id}-list`;
+  const optionId = (index: number) => `${id}-opt-${index}`;
+
+  const [filter, setFilter] = useState<Filter>('all');
+  const [open, setOpen] = useState(false);
+  // null while not typing; the input then shows the selected currency
+  const [query, setQuery] = useState<string | null>(null);
+  const [active, setActive] = useState(-1);
+  const { favorites, recents } = useCurrencyPrefs();
+
   const sorted = useMemo(
     () => [...options].sort((a, b) => a.name.localeCompare(b.name) || a.code.localeCompare(b.code)),
     [options],
   );
-  const getLabel = (opt: Currency) =>
-    opt.name && opt.name.toUpperCase() !== opt.code ? `${opt.name} (${opt.code})` : opt.code;
+  const byCode = useMemo(() => new Map(options.map((o) => [o.code, o])), [options]);
+  const hasCrypto = useMemo(() => options.some((o) => o.type === 'crypto'), [options]);
+  const selected = byCode.get(value);
+
+  const sections = useMemo<Section[]>(() => {
+    // Untagged currencies count as fiat
+    const visible = (opt: Currency) => filter === 'all' || (opt.type ?? 'fiat') === filter;
+    if (query?.trim()) {
+      return [{ label: 'Matches', items: searchCurrencies(sorted, query).filter(visible) }];
+    }
+    const pick = (codes: string[]) =>
+      codes.map((c) => byCode.get(c)).filter((c): c is Currency => !!c && visible(c));
+
+    const list: Section[] = [
+      { label: 'Favorites', items: pick(favorites) },
+      { label: 'Recently used', items: pick(recents) },
+    ];
+    if (hasCrypto) {
+      list.push(
+        { label: 'Fiat', items: sorted.filter((o) => o.type !== 'crypto' && visible(o)) },
+        { label: 'Crypto', items: sorted.filter((o) => o.type === 'crypto' && visible(o)) },
+      );
+    } else {
+      list.push({ label: 'All currencies', items: sorted });
+    }
+    return list.filter((s) => s.items.length);
+  }, [query, sorted, byCode, favorites, recents, filter, hasCrypto]);
+
+  // One flat index across sections drives keyboard movement
+  const flat = useMemo(() => sections.flatMap((s) => s.items), [sections]);
+
+  const openList = () => {
+    if (disabled) return;
+    setOpen(true);
+    setActive(Math.max(0, flat.findIndex((c) => c.code === value)));
+  };
+
+  const close = () => {
+    setOpen(false);
+    setQuery(null);
+    setActive(-1);
+  };
+
+  const choose = (code: string) => {
+    if (trackRecent) markRecent(code);
+    if (code !== value) onChange(code);
+    close();
+  };
+
+  const move = (to: number) => {
+    if (!flat.length) return;
+    setActive(Math.max(0, Math.min(flat.length - 1, to)));
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!open) openList();
+        else move(active + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (!open) openList();
+        else move(active - 1);
+        break;
+      case 'PageDown':
+        if (!open) return;
+        e.preventDefault();
+        move(active + PAGE);
+        break;
+      case 'PageUp':
+        if (!open) return;
+        e.preventDefault();
+        move(active - PAGE);
+        break;
+      case 'Home':
+        // while typing, Home/End keep moving the caret
+        if (!open || query) return;
+        e.preventDefault();
+        move(0);
+        break;
+      case 'End':
+        if (!open || query) return;
+        e.preventDefault();
+        move(flat.length - 1);
+        break;
+      case 'Enter':
+        if (!open) return;
+        e.preventDefault();
+        if (flat[active]) choose(flat[active].code);
+        break;
+      case 'Escape':
+        if (!open) return;
+        e.preventDefault();
+        close();
+        break;
+      case 'Tab':
+        if (open) close();
+        break;
+    }
+  };
+
+  // Keep the highlighted option visible while moving through a long list
+  useEffect(() => {
+    if (open && active >= 0) {
+      document.getElementById(`${id}-opt-${active}`)?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [open, active, id]);
+
+  const isFavorite = favorites.includes(value);
+  let index = 0;
 
   return (
-    <label className="grid gap-1.5">
-      <span className="text-xs text-gray-500">{label}</span>
-      <select
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        disabled={disabled}
-        className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm outline-none transition focus:border-gray-400 disabled:opacity-50"
-      >
-        {sorted.map((opt) => (
-          <option key={opt.code} value={opt.code}>
-            {getLabel(opt)}
-          </option>
-        ))}
-      </select>
-    </label>
+    <div className="grid gap-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor={id} className="text-xs text-gray-500">
+          {label}
+        </label>
+        <div className="flex items-center gap-0.5">
+          {hasCrypto && (
+            <div role="group" aria-label={`${label} currency type`} className="flex gap-0.5">
+              {FILTERS.map((f) => (
+                <button
+                  key={f.id}
+                  type="button"
+                  onClick={() => setFilter(f.id)}
+                  aria-pressed={f.id === filter}
+                  disabled={disabled}
+                  className={[
+                    'rounded px-1.5 text-[11px] leading-5',
+                    f.id === filter ? 'bg-gray-900 text-white' : 'text-gray-500 hover:bg-gray-100',
+                  ].join(' ')}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => value && toggleFavorite(value)}
+            aria-pressed={isFavorite}
+            aria-label={`Favorite ${value}`}
+            title={isFavorite ? `Remove ${value} from favorites` : `Add ${value} to favorites`}
+            disabled={disabled || !value}
+            className={[
+              'rounded px-1 text-sm leading-5 hover:bg-gray-100',
+              isFavorite ? 'text-amber-500' : 'text-gray-400',
+            ].join(' ')}
+          >
+            {isFavorite ? '★' : '☆'}
+          </button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <input
+          id={id}
+          type="text"
+          role="combobox"
+          aria-expanded={open}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={open && active >= 0 ? optionId(active) : undefined}
+          autoComplete="off"
+          spellCheck={false}
+          value={query ?? (selected ? getLabel(selected) : value)}
+          placeholder="Search code, name or symbol"
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+            setActive(0);
+          }}
+          onFocus={(e) => e.target.select()}
+          onClick={() => (open ? undefined : openList())}
+          onBlur={close}
+          onKeyDown={onKeyDown}
+          disabled={disabled}
+          className="h-10 w-full rounded-md border border-gray-300 bg-white px-3 text-sm outline-none transition focus:border-gray-400 disabled:opacity-50"
+        />
+
+        {open && (
+          <ul
+            id={listId}
+            role="listbox"
+            aria-label={label}
+            // keep focus in the input so blur doesn't close the list before a click lands
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute z-10 mt-1 max-h-72 w-full overflow-y-auto rounded-md border border-gray-200 bg-white py-1 text-sm shadow-lg"
+          >
+            {flat.length === 0 && (
+              <li className="px-3 py-2 text-gray-500">
+                No {filter === 'all' ? '' : `${filter} `}currencies match.
+              </li>
+            )}
+            {sections.map((section) => {
+              const headingId = `${id}-${section.label.replace(/\s+/g, '-')}`;
+              return (
+                <li key={section.label} role="presentation">
+                  <div
+                    id={headingId}
+                    className="px-3 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400"
+                  >
+                    {section.label}
+                  </div>
+                  <ul role="group" aria-labelledby={headingId}>
+                    {section.items.map((opt) => {
+                      const i = index++;
+                      const starred = favorites.includes(opt.code);
+                      return (
+                        <li
+                          key={opt.code}
+                          id={optionId(i)}
+                          role="option"
+                          aria-selected={opt.code === value}
+                          onClick={() => choose(opt.code)}
+                          onMouseMove={() => i !== active && setActive(i)}
+                          className={[
+                            'flex cursor-pointer items-center gap-2 px-3 py-1.5',
+                            i === active ? 'bg-gray-100' : '',
+                            opt.code === value ? 'font-medium' : '',
+                          ].join(' ')}
+                        >
+                          <span className="w-12 shrink-0 font-mono text-xs">{opt.code}</span>
+                          <span className="min-w-0 flex-1 truncate">{opt.name}</span>
+                          {opt.symbol && opt.symbol !== opt.code && (
+                            <span className="text-xs text-gray-400">{opt.symbol}</span>
+                          )}
+                          {/* mouse shortcut; keyboard users have the star next to the label */}
+                          <span
+                            aria-hidden
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleFavorite(opt.code);
+                            }}
+                            className={starred ? 'text-amber-500' : 'text-gray-300 hover:text-gray-500'}
+                          >
+                            {starred ? '★' : '☆'}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
   );
-}
\ No newline at end of file
+}
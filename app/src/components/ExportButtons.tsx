@@ -0,0 +1,49 @@
+import { useState } from 'react';
+
+export type ExportAction = {
+  label: string;
+  run: () => void | Promise<void>;
+};
+
+type Props = {
+  /** names what is exported for screen readers, e.g. "Export chart" */
+  label: string;
+  actions: ExportAction[];
+  disabled?: boolean;
+};
+
+/**
+ * A compact row of download buttons; a failing export shows its reason inline
+ */
+export default function ExportButtons({ label, actions, disabled }: Props) {
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: ExportAction) => {
+    setError(null);
+    try {
+      await action.run();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Export failed.');
+    }
+  };
+
+  return (
+    <div role="group" aria-label={label} className="flex flex-wrap items-center gap-1">
+      <span aria-hidden className="text-[11px] text-gray-500">
+        Export
+      </span>
+      {actions.map((a) => (
+        <button
+          key={a.label}
+          type="button"
+          onClick={() => run(a)}
+          disabled={disabled}
+          className="h-6 rounded-md border border-gray-300 bg-white px-2 text-[11px] text-gray-900 hover:bg-gray-50 disabled:opacity-40"
+        >
+          {a.label}
+        </button>
+      ))}
+      {error && <span className="text-[11px] text-red-700">{error}</span>}
+    </div>
+  );
+}
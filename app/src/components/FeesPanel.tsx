@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import {
+  applyFees,
+  DEFAULT_PRESETS,
+  groupByProvider,
+  isPresetList,
+  PRESETS_KEY,
+  type FeePreset,
+} from '../lib/fees';
+import { formatAmount, formatRate } from '../lib/format';
+import { mul, rational, toNumber, type Rational } from '../lib/money';
+import { usePersistentState } from '../hooks/usePersistentState';
+
+type Props = {
+  from: string;
+  to: string;
+  /** amount sent, in from */
+  amount: number;
+  /** mid-market rate from the converter */
+  rate: Rational | null;
+};
+
+type Draft = { name: string; provider: string; spreadPct: string; fixedFee: string; feeIn: FeePreset['feeIn'] };
+
+const EMPTY_DRAFT: Draft = { name: '', provider: '', spreadPct: '', fixedFee: '0', feeIn: 'from' };
+
+/**
+ * What the converter's amount really costs through a bank or card: each saved
+ * preset's spread and fixed fee applied to the mid-market rate, side by side.
+ */
+export default function FeesPanel({ from, to, amount, rate }: Props) {
+  const [presets, setPresets] = usePersistentState<FeePreset[]>(PRESETS_KEY, DEFAULT_PRESETS, isPresetList);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  // id of the preset loaded into the form, null when adding a new one
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const spread = Number(draft.spreadPct);
+  const fee = Number(draft.fixedFee || 0);
+  const formError = !draft.name.trim()
+    ? 'Name the preset.'
+    : !(spread >= 0 && spread < 100)
+      ? 'Enter a spread from 0 to below 100 %.'
+      : !(fee >= 0)
+        ? 'Enter a fixed fee of 0 or more.'
+        : null;
+
+  const save = () => {
+    if (formError) return;
+    const preset: FeePreset = {
+      id: editing ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: draft.name.trim(),
+      provider: draft.provider.trim(),
+      spreadPct: spread,
+      fixedFee: fee,
+      feeIn: draft.feeIn,
+    };
+    setPresets((list) =>
+      editing ? list.map((p) => (p.id === editing ? preset : p)) : [...list, preset],
+    );
+    setDraft(EMPTY_DRAFT);
+    setEditing(null);
+  };
+
+  const edit = (p: FeePreset) => {
+    setEditing(p.id);
+    setDraft({
+      name: p.name,
+      provider: p.provider,
+      spreadPct: String(p.spreadPct),
+      fixedFee: String(p.fixedFee),
+      feeIn: p.feeIn,
+    });
+  };
+
+  const remove = (id: string) => {
+    setPresets((list) => list.filter((p) => p.id !== id));
+    if (editing === id) {
+      setEditing(null);
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  const groups = groupByProvider(presets);
+  const ordered = groups.flatMap(([, list]) => list);
+  const sent = rational(Number.isFinite(amount) ? amount : 0);
+  const quotes = rate ? ordered.map((p) => applyFees(sent, rate, p)) : [];
+  const best = quotes.length
+    ? quotes.reduce((b, q, i) => (toNumber(q.received) > toNumber(quotes[b].received) ? i : b), 0)
+    : -1;
+
+  const describe = (p: FeePreset) =>
+    `${p.spreadPct} % spread` +
+    (p.fixedFee ? ` + ${formatAmount(p.fixedFee, p.feeIn === 'from' ? from : to)} fee` : '');
+
+  const input =
+    'h-10 rounded-md border border-gray-300 bg-white px-3 text-sm outline-none focus:border-gray-400';
+  const smallButton =
+    'h-7 rounded-md border border-gray-300 bg-white px-2 text-xs text-gray-700 hover:bg-gray-50';
+  const cell = 'px-2 py-1.5 text-right tabular-nums';
+
+  return (
+    <section className="mt-6">
+      <h2 className="mb-2 text-sm font-semibold">Fees &amp; spread</h2>
+
+      {!rate ? (
+        <p className="text-sm text-gray-500">Convert an amount to compare bank and card costs.</p>
+      ) : (
+        ordered.length > 0 && (
+          <div className="overflow-x-auto rounded-md border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500">
+                <tr>
+                  <th className="px-2 py-1.5 text-left font-normal">
+                    {formatAmount(amount, from)} → {to}
+                  </th>
+                  <th className={`${cell} font-normal`}>Mid-market</th>
+                  {ordered.map((p, i) => (
+                    <th key={p.id} className={`${cell} font-normal`}>
+                      <div className="font-medium text-gray-900">{p.name}</div>
+                      <div>{p.provider || 'Other'}</div>
+                      {i === best && quotes.length > 1 && (
+                        <span className="rounded bg-green-100 px-1.5 text-[11px] text-green-800">best</span>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                <tr>
+                  <td className="px-2 py-1.5 text-gray-500">You receive</td>
+                  <td className={cell}>{formatAmount(mul(sent, rate), to)}</td>
+                  {quotes.map((q, i) => (
+                    <td key={ordered[i].id} className={`${cell} font-medium`}>
+                      {formatAmount(q.received, to)}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-2 py-1.5 text-gray-500">Effective rate</td>
+                  <td className={cell}>{formatRate(rate, from, to)}</td>
+                  {quotes.map((q, i) => (
+                    <td key={ordered[i].id} className={cell}>
+                      {q.effectiveRate ? formatRate(q.effectiveRate, from, to) : '—'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-2 py-1.5 text-gray-500">Total cost</td>
+                  <td className={cell}>—</td>
+                  {quotes.map((q, i) => (
+                    <td key={ordered[i].id} className={`${cell} text-red-700`}>
+                      {formatAmount(q.cost, to)}
+                      <div className="text-[11px] text-gray-500">
+                        {q.costPct.toLocaleString(undefined, { maximumFractionDigits: 2 })} %
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {groups.length > 0 && (
+        <div className="mt-3 grid gap-2">
+          {groups.map(([provider, list]) => (
+            <div key={provider}>
+              <h3 className="text-xs font-semibold text-gray-700">{provider}</h3>
+              <ul className="divide-y divide-gray-100">
+                {list.map((p) => (
+                  <li key={p.id} className="flex items-center gap-2 py-1 text-sm">
+                    <span className="min-w-0 flex-1">
+                      {p.name} <span className="text-xs text-gray-500">{describe(p)}</span>
+                    </span>
+                    <button type="button" onClick={() => edit(p)} className={smallButton}>
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => remove(p.id)}
+                      aria-label={`Delete preset ${p.name}`}
+                      className={`${smallButton} w-7 px-0`}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 grid grid-cols-2 gap-2 sm:grid-cols-[1fr_1fr_6rem_6rem_auto_auto] sm:items-end">
+        <label className="grid gap-1.5">
+          <span className="text-xs text-gray-500">Preset name</span>
+          <input
+            value={draft.name}
+            placeholder="Bank A wire"
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={input}
+          />
+        </label>
+        <label className="grid gap-1.5">
+          <span className="text-xs text-gray-500">Provider</span>
+          <input
+            value={draft.provider}
+            placeholder="Bank A"
+            onChange={(e) => setDraft({ ...draft, provider: e.target.value })}
+            className={input}
+          />
+        </label>
+        <label className="grid gap-1.5">
+          <span className="text-xs text-gray-500">Spread %</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="any"
+            value={draft.spreadPct}
+            onChange={(e) => setDraft({ ...draft, spreadPct: e.target.value })}
+            className={input}
+          />
+        </label>
+        <label className="grid gap-1.5">
+          <span className="text-xs text-gray-500">Fixed fee</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="any"
+            value={draft.fixedFee}
+            onChange={(e) => setDraft({ ...draft, fixedFee: e.target.value })}
+            className={input}
+          />
+        </label>
+        <label className="grid gap-1.5">
+          <span className="text-xs text-gray-500">Fee in</span>
+          <select
+            value={draft.feeIn}
+            onChange={(e) => setDraft({ ...draft, feeIn: e.target.value as FeePreset['feeIn'] })}
+            className={input}
+          >
+            <option value="from">{from} (sent)</option>
+            <option value="to">{to} (received)</option>
+          </select>
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={save}
+            disabled={!!formError}
+            title={formError ?? undefined}
+            className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {editing ? 'Save' : 'Add preset'}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              onClick={() => {
+                setEditing(null);
+                setDraft(EMPTY_DRAFT);
+              }}
+              className="h-10 rounded-md px-2 text-sm text-gray-500 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,217 @@
+import { useMemo, useState } from 'react';
+import { convertOnce, type Currency } from '../lib/api';
+import { errorMessage } from '../lib/errors';
+import { filterHistory, type HistoryEntry } from '../lib/history';
+import { formatAmount, formatRate } from '../lib/format';
+
+type Props = {
+  entries: HistoryEntry[];
+  currencies: Currency[];
+  onRestore: (entry: HistoryEntry) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+};
+
+type Replay =
+  | { status: 'loading' }
+  | { status: 'done'; result: number; rate?: number }
+  | { status: 'error'; message: string };
+
+const PERIODS = [
+  { label: 'Any time', days: 0 },
+  { label: 'Last 24 hours', days: 1 },
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+];
+
+/**
+ * Past conversions, newest first, with search and filters. Any entry can be
+ * put back into the form or re-run at today's rate to see what changed.
+ */
+export default function HistoryPanel({ entries, currencies, onRestore, onRemove, onClear }: Props) {
+  const [query, setQuery] = useState('');
+  const [currency, setCurrency] = useState('');
+  const [days, setDays] = useState(0);
+  const [fallbackOnly, setFallbackOnly] = useState(false);
+  const [replays, setReplays] = useState<Record<string, Replay>>({});
+
+  const nameOf = useMemo(() => {
+    const names = new Map(currencies.map((c) => [c.code, c.name]));
+    return (code: string) => names.get(code) ?? code;
+  }, [currencies]);
+
+  // Only codes that actually occur in the history are worth filtering by
+  const codes = useMemo(
+    () => [...new Set(entries.flatMap((e) => [e.from, e.to]))].sort(),
+    [entries],
+  );
+
+  const shown = useMemo(
+    () => filterHistory(entries, { query, currency, days, fallbackOnly }, nameOf),
+    [entries, query, currency, days, fallbackOnly, nameOf],
+  );
+
+  const replay = async (e: HistoryEntry) => {
+    setReplays((r) => ({ ...r, [e.id]: { status: 'loading' } }));
+    try {
+      const res = await convertOnce({ from: e.from, to: e.to, amount: e.amount });
+      setReplays((r) => ({ ...r, [e.id]: { status: 'done', result: res.result, rate: res.rate } }));
+    } catch (err: unknown) {
+      const message = errorMessage(err, 'Conversion failed.');
+      setReplays((r) => ({ ...r, [e.id]: { status: 'error', message } }));
+    }
+  };
+
+  const fmtTime = (at: number) =>
+    new Date(at).toLocaleString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const control =
+    'h-8 rounded-md border border-gray-300 bg-white px-2 text-xs outline-none focus:ring-2 focus:ring-gray-900/10';
+  const smallButton =
+    'h-7 rounded-md border border-gray-300 bg-white px-2 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-40';
+
+  return (
+    <section className="mt-6">
+      <div className="mb-2 flex items-baseline justify-between">
+        <h2 className="text-sm font-semibold">History</h2>
+        <span className="flex items-center gap-2 text-xs text-gray-500">
+          {shown.length === entries.length
+            ? `${entries.length} conversions`
+            : `${shown.length} of ${entries.length} conversions`}
+          {entries.length > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                if (confirm('Delete the whole conversion history?')) onClear();
+              }}
+              className="text-xs text-gray-500 underline hover:text-gray-900"
+            >
+              Clear
+            </button>
+          )}
+        </span>
+      </div>
+
+      <div className="mb-2 flex flex-wrap gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search code, name or amount"
+          aria-label="Search history"
+          className={`${control} min-w-40 flex-1`}
+        />
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          aria-label="Filter by currency"
+          className={control}
+        >
+          <option value="">All currencies</option>
+          {codes.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          aria-label="Filter by date"
+          className={control}
+        >
+          {PERIODS.map((p) => (
+            <option key={p.days} value={p.days}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-gray-700">
+          <input
+            type="checkbox"
+            checked={fallbackOnly}
+            onChange={(e) => setFallbackOnly(e.target.checked)}
+          />
+          Cross-rate only
+        </label>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Conversions you make will show up here.</p>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-gray-500">No conversions match these filters.</p>
+      ) : (
+        <ul className="max-h-80 divide-y divide-gray-100 overflow-y-auto rounded-md border border-gray-200">
+          {shown.map((e) => {
+            const r = replays[e.id];
+            const diff = r?.status === 'done' ? r.result - e.result : 0;
+            const diffPct = e.result ? (diff / e.result) * 100 : 0;
+            return (
+              <li key={e.id} className="px-3 py-2 text-sm">
+                <div className="flex items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="tabular-nums">
+                      {formatAmount(e.amount, e.from)} →{' '}
+                      <span className="font-medium">{formatAmount(e.result, e.to)}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {fmtTime(e.at)} &nbsp;•&nbsp; 1 {e.from} ≈ {formatRate(e.rate, e.from, e.to)}{' '}
+                      {e.to}
+                      {e.fallback && ' • via USD cross-rate'}
+                      {e.offline && ' • offline snapshot'}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <button type="button" onClick={() => onRestore(e)} className={smallButton}>
+                      Restore
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => replay(e)}
+                      disabled={r?.status === 'loading'}
+                      className={smallButton}
+                    >
+                      Today
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRemove(e.id)}
+                      aria-label={`Remove conversion from ${fmtTime(e.at)}`}
+                      className={`${smallButton} w-7 px-0`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+                {r && (
+                  <div className="mt-1 text-xs" aria-live="polite">
+                    {r.status === 'loading' && (
+                      <span className="text-gray-500">Converting at today's rate…</span>
+                    )}
+                    {r.status === 'error' && <span className="text-red-700">{r.message}</span>}
+                    {r.status === 'done' && (
+                      <span className="text-gray-700">
+                        Today: {formatAmount(r.result, e.to)}{' '}
+                        <span className={diff >= 0 ? 'text-emerald-700' : 'text-red-700'}>
+                          ({diff >= 0 ? '+' : ''}
+                          {formatAmount(diff, e.to)}, {diff >= 0 ? '+' : ''}
+                          {diffPct.toFixed(2)} %)
+                        </span>
+                      </span>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { convertAt, type ConvertResponse } from '../lib/api';
+import { errorMessage } from '../lib/errors';
+import { formatAmount, formatRate } from '../lib/format';
+import { div, isZero, rational, sub, toNumber, type Rational } from '../lib/money';
+import { EARLIEST_DATE, toISODate } from '../lib/ranges';
+
+type Props = {
+  from: string;
+  to: string;
+  /** amount in from, as converted above */
+  amount: number;
+  /**
+   * today's converted amount, exact, with the request it answers; null while
+   * unknown. Lags behind from/to/amount until a new conversion arrives, so
+   * it is only compared when it was made for the same request.
+   */
+  current: { from: string; to: string; amount: number; value: Rational } | null;
+};
+
+/** A past answer with the request it belongs to */
+type PastAnswer = { from: string; to: string; amount: number; date: string; res: ConvertResponse };
+
+/**
+ * What the converter's amount was worth on a chosen past day, next to
+ * today's value with the absolute and % difference.
+ */
+export default function PastValue({ from, to, amount, current }: Props) {
+  const today = toISODate(new Date());
+  const [date, setDate] = useState('');
+  const [answer, setAnswer] = useState<PastAnswer | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    (async () => {
+      setAnswer(null);
+      setError(null);
+      if (!date || !amount || date < EARLIEST_DATE || date >= today) return;
+      try {
+        setLoading(true);
+        const res = await convertAt({ from, to, amount, date, signal });
+        if (!signal.aborted) setAnswer({ from, to, amount, date, res });
+      } catch (e: unknown) {
+        if (!signal.aborted) setError(errorMessage(e, 'Conversion failed.'));
+      } finally {
+        if (!signal.aborted) setLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [from, to, amount, date, today]);
+
+  // until the effects catch up, either side may still belong to an earlier request
+  const sameRequest = (a: { from: string; to: string; amount: number }) =>
+    a.from === from && a.to === to && a.amount === amount;
+  const res = answer && sameRequest(answer) && answer.date === date ? answer.res : null;
+  const currentValue = current && sameRequest(current) ? current.value : null;
+
+  const past = res ? (res.exact?.result ?? rational(res.result)) : null;
+  const pastRate = res ? (res.exact?.rate ?? (res.rate !== undefined ? rational(res.rate) : null)) : null;
+  const rateDate = typeof res?.meta?.date === 'string' ? res.meta.date : date;
+  const diff = past && currentValue ? sub(currentValue, past) : null;
+  const signed = (text: string, value: Rational) => (value.n > 0n ? `+${text}` : text);
+
+  return (
+    <div className="mt-3 grid gap-1 text-sm">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <label className="flex items-center gap-1.5">
+          Value on
+          <input
+            type="date"
+            value={date}
+            min={EARLIEST_DATE}
+            max={today}
+            onChange={(e) => setDate(e.target.value)}
+            className="h-8 rounded-md border border-gray-300 bg-white px-2 text-xs text-gray-900 outline-none focus:border-gray-400"
+          />
+        </label>
+        {date && (
+          <button
+            type="button"
+            onClick={() => setDate('')}
+            className="text-xs text-gray-500 underline hover:text-gray-900"
+          >
+            Clear
+          </button>
+        )}
+        {loading && <span>Loading…</span>}
+        {date >= today && <span>Pick a day before today.</span>}
+      </div>
+
+      {error && <p className="text-red-700">{error}</p>}
+
+      {past && (
+        <p className="text-gray-700">
+          On {date}, {formatAmount(amount, from)} was <strong>{formatAmount(past, to)}</strong>
+          {pastRate && (
+            <span className="text-gray-500">
+              {' '}
+              (1 {from} = {formatRate(pastRate, from, to)} {to}
+              {rateDate !== date && `, last rate before: ${rateDate}`})
+            </span>
+          )}
+          {currentValue && diff && (
+            <>
+              <br />
+              Today {formatAmount(currentValue, to)}:{' '}
+              <span className={diff.n < 0n ? 'text-red-700' : diff.n > 0n ? 'text-green-700' : ''}>
+                {signed(formatAmount(diff, to), diff)}
+                {!isZero(past) &&
+                  ` (${signed(
+                    (toNumber(div(diff, past)) * 100).toLocaleString(undefined, {
+                      maximumFractionDigits: 2,
+                    }),
+                    diff,
+                  )} %)`}
+              </span>
+            </>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
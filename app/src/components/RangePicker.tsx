@@ -0,0 +1,87 @@
+import { RANGE_PRESETS, EARLIEST_DATE, toISODate, type RangePreset } from '../lib/ranges';
+
+export type RangeChoice = RangePreset | 'custom';
+
+type Props = {
+  value: RangeChoice;
+  onChange: (value: RangeChoice) => void;
+  customStart: string;
+  customEnd: string;
+  onCustomChange: (start: string, end: string) => void;
+  error?: string | null;
+};
+
+const buttonClass = (active: boolean) =>
+  [
+    'h-8 rounded-md border px-2.5 text-xs',
+    active
+      ? 'border-gray-900 bg-gray-900 text-white'
+      : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50',
+  ].join(' ');
+
+export default function RangePicker({
+  value,
+  onChange,
+  customStart,
+  customEnd,
+  onCustomChange,
+  error,
+}: Props) {
+  const today = toISODate(new Date());
+  const dateClass =
+    'h-8 rounded-md border border-gray-300 bg-white px-2 text-xs outline-none focus:border-gray-400';
+
+  return (
+    <div className="mt-3 grid gap-2">
+      <div role="group" aria-label="Chart range" className="flex flex-wrap gap-1.5">
+        {RANGE_PRESETS.map((id) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onChange(id)}
+            aria-pressed={id === value}
+            className={buttonClass(id === value)}
+          >
+            {id}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange('custom')}
+          aria-pressed={value === 'custom'}
+          className={buttonClass(value === 'custom')}
+        >
+          Custom
+        </button>
+      </div>
+
+      {value === 'custom' && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <label className="flex items-center gap-1.5">
+            From
+            <input
+              type="date"
+              value={customStart}
+              min={EARLIEST_DATE}
+              max={customEnd || today}
+              onChange={(e) => onCustomChange(e.target.value, customEnd)}
+              className={dateClass}
+            />
+          </label>
+          <label className="flex items-center gap-1.5">
+            to
+            <input
+              type="date"
+              value={customEnd}
+              min={customStart || EARLIEST_DATE}
+              max={today}
+              onChange={(e) => onCustomChange(customStart, e.target.value)}
+              className={dateClass}
+            />
+          </label>
+          {error && <span className="text-red-700">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,56 +1,287 @@
+import { useMemo, useRef, useState } from 'react';
 import {
-  LineChart,
+  ComposedChart,
+  Bar,
   Line,
   XAxis,
   YAxis,
   Tooltip,
   CartesianGrid,
+  ReferenceDot,
   ResponsiveContainer,
 } from 'recharts';
+import type { TimeseriesProgress } from '../lib/api';
+import { errorMessage, isApiError } from '../lib/errors';
+import { bollinger, ema, indicatorPeriod, sma } from '../lib/indicators';
+import { aggregate, autoInterval, type Candle, type Interval } from '../lib/downsample';
+import {
+  chartToSVG,
+  downloadFile,
+  exportFileName,
+  seriesToCSV,
+  seriesToJSON,
+  svgToPNG,
+} from '../lib/export';
+import RateStats from './RateStats';
+import ExportButtons from './ExportButtons';
 
 type Point = { date: string; rate: number };
 
+type View = 'line' | 'candles';
+
+const INTERVAL_LABEL: Record<Interval, string> = { day: 'daily', week: 'weekly', month: 'monthly' };
+
+type CandleShapeProps = {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: Candle;
+};
+
+/**
+ * Draws one candlestick inside the [low, high] bar recharts lays out:
+ * a wick over the full range and a body from open to close.
+ */
+function CandleShape(props: unknown) {
+  const { x = 0, y = 0, width = 0, height = 0, payload } = props as CandleShapeProps;
+  if (!payload) return <g />;
+
+  const { open, close, high, low } = payload;
+  const up = close >= open;
+  const color = up ? '#059669' : '#dc2626';
+
+  // pixels per unit of rate; a flat bucket has no height to scale against
+  const scale = high > low ? height / (high - low) : 0;
+  const yOf = (v: number) => y + (high - v) * scale;
+  const bodyTop = yOf(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(open - close) * scale);
+  const cx = x + width / 2;
+
+  return (
+    <g>
+      <line x1={cx} x2={cx} y1={y} y2={y + height} stroke={color} />
+      <rect
+        x={x + width * 0.15}
+        y={bodyTop}
+        width={Math.max(1, width * 0.7)}
+        height={bodyHeight}
+        fill={color}
+      />
+    </g>
+  );
+}
+
+type Overlay = 'sma' | 'ema' | 'bollinger' | 'extremes';
+
+const OVERLAYS: { id: Overlay; label: (period: number) => string }[] = [
+  { id: 'sma', label: (n) => `SMA ${n}` },
+  { id: 'ema', label: (n) => `EMA ${n}` },
+  { id: 'bollinger', label: (n) => `Bollinger ${n}/2` },
+  { id: 'extremes', label: () => 'Min/Max' },
+];
+
 export default function RateChart({
   data,
   from,
   to,
   loading,
+  progress,
   error,
+  onRetry,
+  source,
+  fetchedAt,
 }: {
   data: Point[];
   from: string;
   to: string;
   loading?: boolean;
-  error?: string | null;
+  progress?: TimeseriesProgress | null;
+  /** what went wrong loading data; ApiErrors get a message per kind */
+  error?: unknown;
+  /** reloads the data; offered unless retrying can't help (an invalid key) */
+  onRetry?: () => void;
+  /** provider id that answered, written into exports */
+  source?: string;
+  /** ISO time the data was fetched, written into exports */
+  fetchedAt?: string;
 }) {
-  const title = `1 ${from} → ${to} (last ${data.length} days)`;
+  // Long ranges are bucketed so the chart stays readable at thousands of points
+  const interval = autoInterval(data.length);
+  const points = useMemo(() => aggregate(data, interval), [data, interval]);
+  const [view, setView] = useState<View>('line');
+
+  const fmtDay = (d: string) =>
+    new Date(d).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  const title = data.length
+    ? `1 ${from} → ${to} (${fmtDay(data[0].date)} – ${fmtDay(data[data.length - 1].date)}, ${INTERVAL_LABEL[interval]})`
+    : `1 ${from} → ${to}`;
+
+  const [overlays, setOverlays] = useState<Record<Overlay, boolean>>({
+    sma: false,
+    ema: false,
+    bollinger: false,
+    extremes: false,
+  });
+  const toggle = (id: Overlay) => setOverlays((o) => ({ ...o, [id]: !o[id] }));
+
+  const period = indicatorPeriod(points.length);
+
+  // Indicator values ride along on each point so one dataset feeds every line
+  const chartData = useMemo(() => {
+    const rates = points.map((p) => p.rate);
+    const smaValues = sma(rates, period);
+    const emaValues = ema(rates, period);
+    const bands = bollinger(rates, period);
+    return points.map((p, i) => ({
+      ...p,
+      range: [p.low, p.high],
+      sma: smaValues[i],
+      ema: emaValues[i],
+      bbUpper: bands[i].upper,
+      bbLower: bands[i].lower,
+    }));
+  }, [points, period]);
+
+  const extremes = useMemo(() => {
+    if (!points.length) return null;
+    let min = points[0];
+    let max = points[0];
+    for (const p of points) {
+      if (p.low < min.low) min = p;
+      if (p.high > max.high) max = p;
+    }
+    return { min: { date: min.date, rate: min.low }, max: { date: max.date, rate: max.high } };
+  }, [points]);
+
+  // Exports carry the raw daily points, not the bucketed ones on screen
+  const chartRef = useRef<HTMLDivElement>(null);
+  const fileBase = data.length
+    ? [`${from}-${to}`, data[0].date, data[data.length - 1].date]
+    : [`${from}-${to}`];
+  const exportMeta = { from, to, source, fetchedAt: fetchedAt ?? new Date().toISOString() };
+  const chartSVG = () => {
+    const svg = chartRef.current && chartToSVG(chartRef.current, title);
+    if (!svg) throw new Error('Nothing to export yet.');
+    return svg;
+  };
+  const exportActions = [
+    {
+      label: 'CSV',
+      run: () => downloadFile(exportFileName(fileBase, 'csv'), seriesToCSV(data, exportMeta), 'text/csv'),
+    },
+    {
+      label: 'JSON',
+      run: () =>
+        downloadFile(exportFileName(fileBase, 'json'), seriesToJSON(data, exportMeta), 'application/json'),
+    },
+    {
+      label: 'PNG',
+      run: async () => downloadFile(exportFileName(fileBase, 'png'), await svgToPNG(chartSVG())),
+    },
+    {
+      label: 'SVG',
+      run: () => downloadFile(exportFileName(fileBase, 'svg'), chartSVG(), 'image/svg+xml'),
+    },
+  ];
 
   return (
     <div style={{ paddingTop: 12 }}>
-      <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 8 }}>{title}</div>
-      <div style={{ width: '100%', height: 260, border: '1px solid #e5e7eb', borderRadius: 8 }}>
+      <div
+        style={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 8,
+          marginBottom: 8,
+        }}
+      >
+        <div style={{ fontSize: 12, opacity: 0.7 }}>{title}</div>
+        <div role="group" aria-label="Chart overlays" style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+          {(['line', 'candles'] as View[]).map((v) => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => setView(v)}
+              aria-pressed={view === v}
+              className={[
+                'h-6 rounded-md border px-2 text-[11px]',
+                view === v
+                  ? 'border-gray-900 bg-gray-900 text-white'
+                  : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50',
+              ].join(' ')}
+            >
+              {v === 'line' ? 'Line' : 'Candles'}
+            </button>
+          ))}
+          <span aria-hidden style={{ width: 4 }} />
+          {OVERLAYS.map((o) => (
+            <button
+              key={o.id}
+              type="button"
+              onClick={() => toggle(o.id)}
+              aria-pressed={overlays[o.id]}
+              disabled={points.length < 3}
+              className={[
+                'h-6 rounded-md border px-2 text-[11px] disabled:opacity-40',
+                overlays[o.id]
+                  ? 'border-gray-900 bg-gray-900 text-white'
+                  : 'border-gray-300 bg-white text-gray-900 hover:bg-gray-50',
+              ].join(' ')}
+            >
+              {o.label(period)}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div
+        ref={chartRef}
+        style={{ width: '100%', height: 260, border: '1px solid #e5e7eb', borderRadius: 8 }}
+      >
         {error ? (
           <div style={{ padding: 16, fontSize: 14, color: '#b91c1c' }}>
-            {error}
+            {errorMessage(error, 'Failed to load historical data.')}
+            {onRetry && !isApiError(error, 'auth') && (
+              <div style={{ marginTop: 8 }}>
+                <button
+                  type="button"
+                  onClick={onRetry}
+                  className="h-7 rounded-md border border-gray-300 bg-white px-2 text-xs text-gray-700 hover:bg-gray-50"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
           </div>
         ) : loading ? (
-          <div style={{ padding: 16, fontSize: 14, opacity: 0.7 }}>Loading chart…</div>
+          <div style={{ padding: 16, fontSize: 14, opacity: 0.7 }}>
+            {progress && progress.total > 0
+              ? `Loading chart… loaded ${progress.loaded}/${progress.total} days`
+              : 'Loading chart…'}
+          </div>
         ) : data.length === 0 ? (
           <div style={{ padding: 16, fontSize: 14, opacity: 0.7 }}>
             No historical data available.
           </div>
         ) : (
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={data} margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
+            <ComposedChart data={chartData} margin={{ top: 8, right: 16, bottom: 8, left: 8 }}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis
                 dataKey="date"
                 tickFormatter={(d) =>
-                  new Date(d).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+                  new Date(d).toLocaleDateString(
+                    undefined,
+                    interval === 'month'
+                      ? { year: '2-digit', month: 'short' }
+                      : { month: 'short', day: 'numeric' },
+                  )
                 }
                 minTickGap={28}
               />
               <YAxis
+                domain={['auto', 'auto']}
                 tickFormatter={(v) =>
                   Number(v).toLocaleString(undefined, { maximumFractionDigits: 6 })
                 }
@@ -58,9 +289,13 @@ export default function RateChart({
               />
               <Tooltip
                 formatter={(v: any) =>
-                  Number(v).toLocaleString(undefined, {
-                    maximumFractionDigits: 8,
-                  })
+                  Array.isArray(v)
+                    ? v
+                        .map((n) => Number(n).toLocaleString(undefined, { maximumFractionDigits: 8 }))
+                        .join(' – ')
+                    : Number(v).toLocaleString(undefined, {
+                        maximumFractionDigits: 8,
+                      })
                 }
                 labelFormatter={(d) =>
                   new Date(d).toLocaleDateString(undefined, {
@@ -70,11 +305,90 @@ export default function RateChart({
                   })
                 }
               />
-              <Line type="monotone" dataKey="rate" dot={false} />
-            </LineChart>
+              {view === 'candles' ? (
+                <Bar
+                  dataKey="range"
+                  name="Low – high"
+                  shape={CandleShape}
+                  isAnimationActive={false}
+                />
+              ) : (
+                <Line type="monotone" dataKey="rate" name="Rate" dot={false} />
+              )}
+              {overlays.sma && (
+                <Line
+                  type="monotone"
+                  dataKey="sma"
+                  name={`SMA ${period}`}
+                  stroke="#f59e0b"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {overlays.ema && (
+                <Line
+                  type="monotone"
+                  dataKey="ema"
+                  name={`EMA ${period}`}
+                  stroke="#8b5cf6"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {overlays.bollinger && (
+                <Line
+                  type="monotone"
+                  dataKey="bbUpper"
+                  name="Upper band"
+                  stroke="#9ca3af"
+                  strokeDasharray="4 3"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {overlays.bollinger && (
+                <Line
+                  type="monotone"
+                  dataKey="bbLower"
+                  name="Lower band"
+                  stroke="#9ca3af"
+                  strokeDasharray="4 3"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {overlays.extremes && extremes && (
+                <ReferenceDot
+                  x={extremes.max.date}
+                  y={extremes.max.rate}
+                  r={4}
+                  fill="#059669"
+                  stroke="none"
+                  label={{ value: 'max', position: 'top', fontSize: 10 }}
+                />
+              )}
+              {overlays.extremes && extremes && (
+                <ReferenceDot
+                  x={extremes.min.date}
+                  y={extremes.min.rate}
+                  r={4}
+                  fill="#dc2626"
+                  stroke="none"
+                  label={{ value: 'min', position: 'bottom', fontSize: 10 }}
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         )}
       </div>
+      {!error && !loading && <RateStats data={data} to={to} />}
+      <div style={{ marginTop: 8 }}>
+        <ExportButtons
+          label="Export chart data"
+          actions={exportActions}
+          disabled={!!error || !!loading || !data.length}
+        />
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import type { TimeseriesPoint } from '../lib/api';
+import { seriesStats } from '../lib/indicators';
+
+type Props = {
+  data: TimeseriesPoint[];
+  to: string;
+};
+
+const fmt = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const fmtDate = (d: string) =>
+  new Date(d).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+/**
+ * One-line summary of the charted period: change, high, low, average and
+ * annualised volatility, so "is today's rate good?" needs no spreadsheet.
+ */
+export default function RateStats({ data, to }: Props) {
+  const stats = useMemo(() => seriesStats(data), [data]);
+  if (!stats) return null;
+
+  const up = stats.change >= 0;
+  const items: { label: string; value: string; hint?: string; className?: string }[] = [
+    {
+      label: 'Change',
+      value: `${up ? '+' : ''}${fmt(stats.change)} (${up ? '+' : ''}${stats.changePct.toFixed(2)}%)`,
+      className: up ? 'text-emerald-700' : 'text-red-700',
+    },
+    { label: 'High', value: fmt(stats.high.rate), hint: fmtDate(stats.high.date) },
+    { label: 'Low', value: fmt(stats.low.rate), hint: fmtDate(stats.low.date) },
+    { label: 'Average', value: fmt(stats.average) },
+    {
+      label: 'Volatility (ann.)',
+      value: stats.volatility === undefined ? '—' : `${(stats.volatility * 100).toFixed(2)}%`,
+    },
+  ];
+
+  return (
+    <dl
+      aria-label={`Statistics for the charted period, rates in ${to}`}
+      className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs sm:grid-cols-5"
+    >
+      {items.map((item) => (
+        <div key={item.label}>
+          <dt className="text-gray-500">{item.label}</dt>
+          <dd className={['tabular-nums', item.className ?? 'text-gray-900'].join(' ')}>
+            {item.value}
+            {item.hint && <span className="ml-1 text-gray-400">{item.hint}</span>}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,32 @@
+import { useApiUsage } from '../hooks/useApiUsage';
+import { getConfig } from '../lib/config';
+import { budgetLevel, type BudgetLevel } from '../lib/usage';
+
+const LEVEL_CLASS: Record<BudgetLevel, string> = {
+  ok: '',
+  warn: 'font-medium text-amber-700',
+  over: 'font-medium text-red-700',
+};
+
+/**
+ * CurrencyBeacon requests made from this browser today and this month,
+ * against the configured budgets when there are any.
+ */
+export default function UsageMeter() {
+  const usage = useApiUsage();
+  const { dailyBudget, monthlyBudget } = getConfig();
+
+  const count = (used: number, budget: number | undefined) => (
+    <span className={LEVEL_CLASS[budgetLevel(used, budget)]}>
+      {used.toLocaleString()}
+      {budget !== undefined && ` / ${budget.toLocaleString()}`}
+    </span>
+  );
+
+  return (
+    <p className="mt-6 text-xs text-gray-500">
+      API calls today: {count(usage.today, dailyBudget)} · this month:{' '}
+      {count(usage.thisMonth, monthlyBudget)}
+    </p>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import CurrencySelect from './CurrencySelect';
+import { convertMany, type ConvertResponse, type Currency } from '../lib/api';
+import { formatAmount, formatRate } from '../lib/format';
+import { inverse } from '../lib/money';
+import { errorMessage } from '../lib/errors';
+import { usePersistentState } from '../hooks/usePersistentState';
+
+type Props = {
+  from: string;
+  amount: number;
+  currencies: Currency[];
+};
+
+const DEFAULT_TARGETS = ['EUR', 'GBP', 'JPY'];
+
+const isCodeList = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every((c) => typeof c === 'string' && /^[A-Z]{3,5}$/.test(c));
+
+/**
+ * Converts the current amount into a persisted list of target currencies.
+ * All rows come from one /latest call; reordering rows doesn't refetch.
+ */
+export default function Watchlist({ from, amount, currencies }: Props) {
+  const [targets, setTargets] = usePersistentState<string[]>(
+    'cb_watchlist_v1',
+    DEFAULT_TARGETS,
+    isCodeList,
+  );
+  const [quotes, setQuotes] = useState<Record<string, ConvertResponse>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Candidates for the "add" picker: everything not already listed
+  const addable = useMemo(
+    () => currencies.filter((c) => !targets.includes(c.code)),
+    [currencies, targets],
+  );
+  const [pick, setPick] = useState('');
+  const pickCode = addable.some((c) => c.code === pick) ? pick : addable[0]?.code ?? '';
+
+  // Order-insensitive key so reordering rows doesn't trigger a refetch
+  const symbolsKey = useMemo(() => [...targets].sort().join(','), [targets]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    (async () => {
+      if (!symbolsKey || !amount || amount < 0 || !from) {
+        setQuotes({});
+        return;
+      }
+      try {
+        setLoading(true);
+        setError(null);
+        const res = await convertMany({ from, targets: symbolsKey.split(','), amount, signal });
+        if (!signal.aborted) setQuotes(res);
+      } catch (e: unknown) {
+        if (!signal.aborted) {
+          setError(errorMessage(e, 'Failed to load watchlist rates.'));
+          setQuotes({});
+        }
+      } finally {
+        if (!signal.aborted) setLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [from, amount, symbolsKey]);
+
+  const move = (index: number, delta: number) => {
+    setTargets((list) => {
+      const next = [...list];
+      const [item] = next.splice(index, 1);
+      next.splice(Math.max(0, Math.min(next.length, index + delta)), 0, item);
+      return next;
+    });
+  };
+
+  const remove = (code: string) => setTargets((list) => list.filter((c) => c !== code));
+
+  const add = () => {
+    if (pickCode && !targets.includes(pickCode)) setTargets((list) => [...list, pickCode]);
+  };
+
+  const nameOf = (code: string) => currencies.find((c) => c.code === code)?.name ?? code;
+
+  const iconButton =
+    'h-7 w-7 rounded-md border border-gray-300 bg-white text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-40';
+
+  return (
+    <section className="mt-6">
+      <div className="mb-2 flex items-baseline justify-between">
+        <h2 className="text-sm font-semibold">Watchlist</h2>
+        <span className="text-xs text-gray-500">
+          {loading ? 'Updating…' : `${amount || 0} ${from} in ${targets.length} currencies`}
+        </span>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-700">{error}</p>}
+
+      {targets.length === 0 ? (
+        <p className="text-sm text-gray-500">No currencies yet. Add one below.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+          {targets.map((code, i) => {
+            const quote = quotes[code];
+            // exact rate when the API layer has one, so the inverse doesn't drift
+            const exactRate = quote?.exact?.rate;
+            return (
+              <li key={code} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="font-medium">
+                    {code} <span className="font-normal text-gray-500">{nameOf(code)}</span>
+                  </div>
+                  {quote?.rate ? (
+                    <div className="text-xs text-gray-500">
+                      1 {from} ≈ {formatRate(exactRate ?? quote.rate, from, code)} {code} &nbsp;•&nbsp; 1{' '}
+                      {code} ≈ {formatRate(exactRate ? inverse(exactRate) : 1 / quote.rate, code, from)}{' '}
+                      {from}
+                    </div>
+                  ) : (
+                    <div className="text-xs text-gray-400">{loading ? '…' : 'No rate available'}</div>
+                  )}
+                </div>
+                <div className="w-32 text-right tabular-nums">
+                  {quote ? formatAmount(quote.exact?.result ?? quote.result, code) : '—'}
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => move(i, -1)}
+                    disabled={i === 0}
+                    aria-label={`Move ${code} up`}
+                    className={iconButton}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(i, 1)}
+                    disabled={i === targets.length - 1}
+                    aria-label={`Move ${code} down`}
+                    className={iconButton}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(code)}
+                    aria-label={`Remove ${code}`}
+                    className={iconButton}
+                  >
+                    ×
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="mt-3 grid grid-cols-[1fr_auto] items-end gap-2">
+        <CurrencySelect
+          label="Add currency"
+          value={pickCode}
+          onChange={setPick}
+          options={addable}
+          disabled={!addable.length}
+          trackRecent={false}
+        />
+        <button
+          type="button"
+          onClick={add}
+          disabled={!pickCode}
+          className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </section>
+  );
+}
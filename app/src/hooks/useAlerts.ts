@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getMultiTimeseries, latestPairRates } from '../lib/api';
+import {
+  createAlertPoller,
+  EVENTS_KEY,
+  isEventList,
+  isRuleList,
+  MAX_EVENTS,
+  notify,
+  RULES_KEY,
+  type AlertEvent,
+  type AlertRule,
+  type AlertSource,
+} from '../lib/alerts';
+import { errorMessage } from '../lib/errors';
+import { usePersistentState } from './usePersistentState';
+
+const liveSource: AlertSource = {
+  latest: (pairs) => latestPairRates({ pairs }),
+  history: (pairs, start, end) => getMultiTimeseries({ pairs, start, end }),
+};
+
+type Permission = NotificationPermission | 'unsupported';
+
+const currentPermission = (): Permission =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+/**
+ * Persisted alert rules and fired alerts, with a poller that checks the
+ * rules in the background while the app is open.
+ *
+ * @param source - where rates come from; defaults to the live API
+ */
+export function useAlerts(source: AlertSource = liveSource) {
+  const [rules, setRules] = usePersistentState<AlertRule[]>(RULES_KEY, [], isRuleList);
+  const [events, setEvents] = usePersistentState<AlertEvent[]>(EVENTS_KEY, [], isEventList);
+  const [error, setError] = useState<string | null>(null);
+  const [permission, setPermission] = useState<Permission>(currentPermission);
+
+  // The poller reads rules through a ref so editing them doesn't restart it
+  const rulesRef = useRef(rules);
+  useEffect(() => {
+    rulesRef.current = rules;
+  }, [rules]);
+
+  const hasActive = rules.some((r) => r.active);
+
+  useEffect(() => {
+    if (!hasActive) return;
+    const poller = createAlertPoller({
+      source,
+      getRules: () => rulesRef.current,
+      onRules: (updated) => {
+        // Only the evaluation state is taken over; rules edited meanwhile keep their edits
+        const byId = new Map(updated.map((r) => [r.id, r]));
+        setRules((list) =>
+          list.map((r) => {
+            const u = byId.get(r.id);
+            return u
+              ? { ...r, triggered: u.triggered, lastRate: u.lastRate, lastCheckedAt: u.lastCheckedAt }
+              : r;
+          }),
+        );
+        setError(null);
+      },
+      onFire: (event) => {
+        notify(event);
+        setEvents((list) => [event, ...list].slice(0, MAX_EVENTS));
+      },
+      onError: (e) => setError(errorMessage(e, 'Could not check alerts.')),
+    });
+    poller.start();
+    return () => poller.stop();
+  }, [hasActive, source, setRules, setEvents]);
+
+  const addRule = useCallback(
+    (rule: Omit<AlertRule, 'id' | 'createdAt' | 'active'>) => {
+      const createdAt = Date.now();
+      const id = `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+      setRules((list) => [...list, { ...rule, id, createdAt, active: true }]);
+    },
+    [setRules],
+  );
+
+  const removeRule = useCallback(
+    (id: string) => setRules((list) => list.filter((r) => r.id !== id)),
+    [setRules],
+  );
+
+  // Resuming re-arms the rule so a level already crossed is reported again
+  const toggleRule = useCallback(
+    (id: string) =>
+      setRules((list) =>
+        list.map((r) => (r.id === id ? { ...r, active: !r.active, triggered: false } : r)),
+      ),
+    [setRules],
+  );
+
+  const clearEvents = useCallback(() => setEvents([]), [setEvents]);
+
+  const requestPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  return {
+    rules,
+    events,
+    error,
+    permission,
+    addRule,
+    removeRule,
+    toggleRule,
+    clearEvents,
+    requestPermission,
+  };
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getUsage, subscribeUsage, type ApiUsage } from '../lib/usage';
+
+/**
+ * CurrencyBeacon requests made today and this month.
+ *
+ * @returns { today, thisMonth, ... } - re-renders after every counted request
+ */
+export function useApiUsage(): ApiUsage {
+  return useSyncExternalStore(subscribeUsage, getUsage);
+}
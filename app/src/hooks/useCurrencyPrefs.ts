@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getCurrencyPrefs, subscribeCurrencyPrefs, type CurrencyPrefs } from '../lib/currencyPrefs';
+
+/**
+ * Favorite and recently used currencies, shared by every picker on the page.
+ *
+ * @returns { favorites, recents } - re-renders whenever either list changes
+ */
+export function useCurrencyPrefs(): CurrencyPrefs {
+  return useSyncExternalStore(subscribeCurrencyPrefs, getCurrencyPrefs);
+}
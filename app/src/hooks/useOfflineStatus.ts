@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { getOfflineState, subscribeOffline, type OfflineState } from '../lib/offline';
+
+/**
+ * Whether the API layer is currently answering from saved snapshots, and
+ * how old those snapshots are.
+ *
+ * @returns { offline, asOf } - re-renders whenever the API layer flips state
+ */
+export function useOfflineStatus(): OfflineState {
+  return useSyncExternalStore(subscribeOffline, getOfflineState);
+}
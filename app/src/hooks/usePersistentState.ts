@@ -0,0 +1,45 @@
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react';
+
+/**
+ * useState that survives reloads by mirroring the value into localStorage as JSON.
+ *
+ * Falls back to initial when nothing is stored, the stored JSON is unreadable,
+ * or it fails the optional isValid check (e.g. after a shape change).
+ *
+ * @typeParam - the type of the stored value.
+ *
+ * @param key     - localStorage key, versioned like "cb_watchlist_v1"
+ * @param initial - value to use when nothing valid is stored
+ * @param isValid - optional guard for values read back from storage
+ *
+ * @returns The same [value, setValue] pair as useState
+ */
+export function usePersistentState<T>(
+  key: string,
+  initial: T,
+  isValid?: (value: unknown) => value is T,
+): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored === null) return initial;
+
+      const parsed: unknown = JSON.parse(stored);
+      if (isValid && !isValid(parsed)) return initial;
+      return parsed as T;
+    } catch {
+      // unreadable or storage blocked - start fresh
+      return initial;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // quota exceeded or storage blocked - keep the in-memory value
+    }
+  }, [key, value]);
+
+  return [value, setValue];
+}
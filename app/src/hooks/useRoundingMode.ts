@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getRoundingMode, subscribeRoundingMode, type RoundingMode } from '../lib/format';
+
+/**
+ * The rounding mode used for displayed and exported amounts.
+ *
+ * @returns 'half-up' or 'half-even' - re-renders whenever the user switches
+ */
+export function useRoundingMode(): RoundingMode {
+  return useSyncExternalStore(subscribeRoundingMode, getRoundingMode);
+}
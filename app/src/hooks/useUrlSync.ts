@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { buildSearch, parseUrlState, type UrlState } from '../lib/urlState';
+
+/**
+ * Two-way sync between state and the URL query string.
+ *
+ * State changes are written as new history entries once they have been
+ * stable for delay ms, so typing "2500" adds one entry rather than four.
+ * Back/forward hands the entry's state to onRestore. The first write (and any
+ * write announced through replaceNext) replaces the current entry instead, so
+ * canonicalising the URL or correcting an invalid link doesn't add a step.
+ *
+ * @param state     - current state to mirror into the URL
+ * @param onRestore - applies state read from the URL after back/forward
+ * @param delay     - ms a change must be stable before it's pushed (default 600)
+ *
+ * @returns replaceNext: makes the next write replace the current entry
+ */
+export function useUrlSync(
+  state: UrlState,
+  onRestore: (state: UrlState) => void,
+  delay = 600,
+): { replaceNext: () => void } {
+  const search = buildSearch(state);
+  const mode = useRef<'replace' | 'push'>('replace');
+
+  useEffect(() => {
+    const replace = mode.current === 'replace';
+    mode.current = 'push';
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (replace) {
+      window.history.replaceState(null, '', url);
+      return;
+    }
+    const timer = setTimeout(() => window.history.pushState(null, '', url), delay);
+    return () => clearTimeout(timer);
+  }, [search, delay]);
+
+  // Latest callback without re-subscribing on every render
+  const restore = useRef(onRestore);
+  useEffect(() => {
+    restore.current = onRestore;
+  }, [onRestore]);
+
+  useEffect(() => {
+    const onPop = () => restore.current(parseUrlState(window.location.search));
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, []);
+
+  const replaceNext = useCallback(() => {
+    mode.current = 'replace';
+  }, []);
+
+  return { replaceNext };
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CurrencyPair, TimeseriesPoint } from './api';
+import {
+  createAlertPoller,
+  evaluateRule,
+  type AlertClock,
+  type AlertEvent,
+  type AlertRule,
+  type AlertSource,
+} from './alerts';
+
+const NOW = Date.parse('2024-03-15T12:00:00Z');
+
+function rule(over: Partial<AlertRule>): AlertRule {
+  return { id: 'r1', from: 'USD', to: 'EUR', kind: 'above', level: 0.95, active: true, createdAt: 0, ...over };
+}
+
+/** A poller over in-memory rules, a settable rate and a fake clock */
+function setup(rules: AlertRule[], history: Record<string, TimeseriesPoint[]> = {}) {
+  let current = rules;
+  const rates: Record<string, number | undefined> = {};
+  const fired: AlertEvent[] = [];
+  const timers: { fn: () => void; ms: number }[] = [];
+
+  const source: AlertSource = {
+    latest: vi.fn(async (pairs: CurrencyPair[]) => pairs.map((p) => rates[`${p.from}/${p.to}`])),
+    history: vi.fn(async (pairs: CurrencyPair[]) => pairs.map((p) => history[`${p.from}/${p.to}`] ?? [])),
+  };
+  const clock: AlertClock = {
+    now: () => NOW,
+    setTimeout: (fn, ms) => timers.push({ fn, ms }),
+    clearTimeout: vi.fn(),
+  };
+  const poller = createAlertPoller({
+    source,
+    clock,
+    interval: 60_000,
+    getRules: () => current,
+    onRules: (updated) => {
+      current = current.map((r) => updated.find((u) => u.id === r.id) ?? r);
+    },
+    onFire: (event) => fired.push(event),
+  });
+
+  return { poller, source, rates, fired, timers, rules: () => current };
+}
+
+describe('evaluateRule', () => {
+  it('holds for above/below at and past the level', () => {
+    expect(evaluateRule(rule({ kind: 'above' }), 0.95)).toContain('at or above 0.95');
+    expect(evaluateRule(rule({ kind: 'above' }), 0.9499)).toBeNull();
+    expect(evaluateRule(rule({ kind: 'below', level: 0.9 }), 0.89)).toContain('at or below 0.9');
+    expect(evaluateRule(rule({ kind: 'below', level: 0.9 }), 0.91)).toBeNull();
+  });
+
+  it('never holds without a level', () => {
+    expect(evaluateRule(rule({ kind: 'above', level: undefined }), 100)).toBeNull();
+  });
+
+  it('compares move rules with the reference rate, either way', () => {
+    const move = rule({ kind: 'move', percent: 2, days: 7 });
+    expect(evaluateRule(move, 1.03, 1)).toBe('USD/EUR up 3.00 % in 7 days (now 1.03)');
+    expect(evaluateRule(move, 0.97, 1)).toBe('USD/EUR down 3.00 % in 7 days (now 0.97)');
+    expect(evaluateRule(move, 1.01, 1)).toBeNull();
+    expect(evaluateRule(move, 1.5)).toBeNull();
+  });
+});
+
+describe('createAlertPoller', () => {
+  it('fires once when a level is crossed, not again while it stays crossed', async () => {
+    const { poller, rates, fired, rules } = setup([rule({})]);
+
+    rates['USD/EUR'] = 0.94;
+    await poller.check();
+    expect(fired).toHaveLength(0);
+    expect(rules()[0]).toMatchObject({ triggered: false, lastRate: 0.94, lastCheckedAt: NOW });
+
+    rates['USD/EUR'] = 0.96;
+    await poller.check();
+    rates['USD/EUR'] = 0.97;
+    await poller.check();
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ ruleId: 'r1', rate: 0.96, at: NOW });
+    expect(rules()[0].triggered).toBe(true);
+  });
+
+  it('re-arms once the condition stops holding and fires on the next crossing', async () => {
+    const { poller, rates, fired, rules } = setup([rule({ triggered: true })]);
+
+    rates['USD/EUR'] = 0.96;
+    await poller.check();
+    expect(fired).toHaveLength(0);
+
+    rates['USD/EUR'] = 0.93;
+    await poller.check();
+    expect(rules()[0].triggered).toBe(false);
+
+    rates['USD/EUR'] = 0.95;
+    await poller.check();
+    expect(fired.map((e) => e.rate)).toEqual([0.95]);
+  });
+
+  it('skips paused rules and pairs without a rate', async () => {
+    const { poller, source, rates, fired, rules } = setup([
+      rule({ id: 'paused', active: false }),
+      rule({ id: 'no-rate', from: 'GBP' }),
+    ]);
+    rates['USD/EUR'] = 2;
+
+    await poller.check();
+    expect(source.latest).toHaveBeenCalledWith([{ from: 'GBP', to: 'EUR' }]);
+    expect(fired).toHaveLength(0);
+    expect(rules().every((r) => r.lastCheckedAt === undefined)).toBe(true);
+  });
+
+  it('takes move references from one shared history request', async () => {
+    const { poller, source, rates, fired } = setup(
+      [
+        rule({ id: 'week', kind: 'move', percent: 2, days: 7 }),
+        rule({ id: 'month', kind: 'move', percent: 10, days: 30 }),
+      ],
+      {
+        'USD/EUR': [
+          { date: '2024-02-20', rate: 0.9 },
+          { date: '2024-03-08', rate: 1 },
+          { date: '2024-03-12', rate: 1.01 },
+        ],
+      },
+    );
+    rates['USD/EUR'] = 1.025;
+
+    await poller.check();
+    expect(source.history).toHaveBeenCalledTimes(1);
+    expect(source.history).toHaveBeenCalledWith([{ from: 'USD', to: 'EUR' }], '2024-02-14', '2024-03-15');
+    // week: first point on or after 03-08 is 1 (+2.5 %); month: 0.9 (+13.9 %)
+    expect(fired.map((e) => e.ruleId)).toEqual(['week', 'month']);
+  });
+
+  it('polls on the interval, reports failed rounds and keeps going until stopped', async () => {
+    const { poller, source, timers } = setup([rule({})]);
+    const onError = vi.fn();
+    const failing = createAlertPoller({
+      source: { ...source, latest: () => Promise.reject(new Error('offline')) },
+      getRules: () => [rule({})],
+      onRules: () => {},
+      onFire: () => {},
+      onError,
+      clock: { now: () => NOW, setTimeout: (fn, ms) => timers.push({ fn, ms }), clearTimeout: () => {} },
+      interval: 60_000,
+    });
+
+    poller.start();
+    await vi.waitFor(() => expect(timers).toHaveLength(1));
+    expect(timers[0].ms).toBe(60_000);
+    expect(source.latest).toHaveBeenCalledTimes(1);
+
+    poller.stop();
+    timers.shift()!.fn();
+    await vi.waitFor(() => expect(source.latest).toHaveBeenCalledTimes(2));
+    expect(timers).toHaveLength(0);
+
+    failing.start();
+    await vi.waitFor(() => expect(timers).toHaveLength(1));
+    expect(onError).toHaveBeenCalledWith(new Error('offline'));
+  });
+});
@@ -0,0 +1,254 @@
+import type { CurrencyPair, TimeseriesPoint } from './api';
+import { getConfig } from './config';
+
+/**
+ * A user-defined condition on one pair:
+ * - above/below: 1 FROM is at least / at most `level` TO
+ * - move: 1 FROM moved by `percent` % or more (either way) within the last `days` days
+ */
+export type AlertRule = {
+  id: string;
+  from: string;
+  to: string;
+  kind: 'above' | 'below' | 'move';
+  level?: number;
+  percent?: number;
+  days?: number;
+  /** paused rules are kept but not evaluated */
+  active: boolean;
+  createdAt: number;
+  /** true while the condition holds; it fires again only after this resets */
+  triggered?: boolean;
+  lastRate?: number;
+  lastCheckedAt?: number;
+};
+
+/** One time a rule fired */
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  from: string;
+  to: string;
+  rate: number;
+  message: string;
+  at: number;
+};
+
+export const RULES_KEY = 'cb_alert_rules_v1';
+export const EVENTS_KEY = 'cb_alert_events_v1';
+
+/** Oldest fired alerts are dropped beyond this */
+export const MAX_EVENTS = 100;
+
+const ONE_DAY = 86_400_000;
+
+export function isRuleList(v: unknown): v is AlertRule[] {
+  return (
+    Array.isArray(v) &&
+    v.every(
+      (r) =>
+        r &&
+        typeof r === 'object' &&
+        typeof r.id === 'string' &&
+        typeof r.from === 'string' &&
+        typeof r.to === 'string' &&
+        (r.kind === 'above' || r.kind === 'below' || r.kind === 'move'),
+    )
+  );
+}
+
+export function isEventList(v: unknown): v is AlertEvent[] {
+  return (
+    Array.isArray(v) &&
+    v.every((e) => e && typeof e === 'object' && typeof e.id === 'string' && typeof e.at === 'number')
+  );
+}
+
+/** Short human description, e.g. "1 USD ≥ 0.95 EUR" or "USD/EUR moves 2 % in 7 days" */
+export function describeRule(rule: AlertRule): string {
+  if (rule.kind === 'move') {
+    return `${rule.from}/${rule.to} moves ${rule.percent} % in ${rule.days} days`;
+  }
+  return `1 ${rule.from} ${rule.kind === 'above' ? '≥' : '≤'} ${rule.level} ${rule.to}`;
+}
+
+/**
+ * Checks one rule against the current rate
+ *
+ * @param rule      - rule to check
+ * @param rate      - current rate for 1 FROM in TO
+ * @param reference - rate at the start of the rule's window (move rules only)
+ *
+ * @returns A message when the condition holds, otherwise null
+ */
+export function evaluateRule(rule: AlertRule, rate: number, reference?: number): string | null {
+  switch (rule.kind) {
+    case 'above':
+      return rule.level !== undefined && rate >= rule.level
+        ? `1 ${rule.from} = ${rate} ${rule.to}, at or above ${rule.level}`
+        : null;
+    case 'below':
+      return rule.level !== undefined && rate <= rule.level
+        ? `1 ${rule.from} = ${rate} ${rule.to}, at or below ${rule.level}`
+        : null;
+    case 'move': {
+      if (!reference || !rule.percent) return null;
+      const change = ((rate - reference) / reference) * 100;
+      return Math.abs(change) >= rule.percent
+        ? `${rule.from}/${rule.to} ${change >= 0 ? 'up' : 'down'} ${Math.abs(change).toFixed(2)} % in ${rule.days} days (now ${rate})`
+        : null;
+    }
+  }
+}
+
+/** Where the poller gets its numbers; stub it to test rules without a network */
+export type AlertSource = {
+  /** current rate per pair, in the order given */
+  latest(pairs: CurrencyPair[]): Promise<(number | undefined)[]>;
+  /** daily series per pair between two "YYYY-MM-DD" dates, in the order given */
+  history(pairs: CurrencyPair[], start: string, end: string): Promise<TimeseriesPoint[][]>;
+};
+
+/** Time and timers; replace with a fake clock to test polling */
+export type AlertClock = {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+};
+
+export const systemClock: AlertClock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export type AlertPollerOptions = {
+  source: AlertSource;
+  /** reads the current rules each round, so edits apply without a restart */
+  getRules: () => AlertRule[];
+  /** receives rules whose state (triggered, lastRate...) changed */
+  onRules: (updated: AlertRule[]) => void;
+  /** receives every alert that fired */
+  onFire: (event: AlertEvent) => void;
+  /** receives errors from a round; polling continues regardless */
+  onError?: (error: unknown) => void;
+  clock?: AlertClock;
+  interval?: number;
+};
+
+export type AlertPoller = {
+  start(): void;
+  stop(): void;
+  /** runs one round now; resolves once every rule was evaluated */
+  check(): Promise<void>;
+};
+
+/**
+ * Evaluates the active rules on a timer.
+ *
+ * Each round makes one /latest request for every pair at once, plus one shared
+ * history request for move rules (grouped by the longest window). A rule fires
+ * when its condition starts to hold and re-arms once it stops holding, so a
+ * level that stays crossed doesn't notify every few minutes.
+ */
+export function createAlertPoller(options: AlertPollerOptions): AlertPoller {
+  const { source, getRules, onRules, onFire, onError } = options;
+  const clock = options.clock ?? systemClock;
+  const interval = options.interval ?? getConfig().alertPollMs;
+
+  let timer: unknown;
+  let running = false;
+
+  const check = async () => {
+    const rules = getRules().filter((r) => r.active);
+    if (!rules.length) return;
+
+    const now = clock.now();
+    const pairs = uniquePairs(rules);
+    const rates = await source.latest(pairs);
+    const rateOf = new Map(pairs.map((p, i) => [pairKey(p), rates[i]]));
+
+    // One history request covers every move rule
+    const references = new Map<string, TimeseriesPoint[]>();
+    const moves = rules.filter((r) => r.kind === 'move' && r.days);
+    if (moves.length) {
+      const longest = Math.max(...moves.map((r) => r.days ?? 0));
+      const movePairs = uniquePairs(moves);
+      const series = await source.history(movePairs, isoDay(now - longest * ONE_DAY), isoDay(now));
+      movePairs.forEach((p, i) => references.set(pairKey(p), series[i] ?? []));
+    }
+
+    const updated: AlertRule[] = [];
+    for (const rule of rules) {
+      const rate = rateOf.get(pairKey(rule));
+      if (rate === undefined) continue;
+
+      let reference: number | undefined;
+      if (rule.kind === 'move') {
+        const since = isoDay(now - (rule.days ?? 0) * ONE_DAY);
+        reference = references.get(pairKey(rule))?.find((p) => p.date >= since)?.rate;
+      }
+
+      const message = evaluateRule(rule, rate, reference);
+      if (message && !rule.triggered) {
+        onFire({
+          id: `${now.toString(36)}-${rule.id}`,
+          ruleId: rule.id,
+          from: rule.from,
+          to: rule.to,
+          rate,
+          message,
+          at: now,
+        });
+      }
+      updated.push({ ...rule, triggered: !!message, lastRate: rate, lastCheckedAt: now });
+    }
+    if (updated.length) onRules(updated);
+  };
+
+  const tick = async () => {
+    try {
+      await check();
+    } catch (e) {
+      onError?.(e);
+    } finally {
+      if (running) timer = clock.setTimeout(tick, interval);
+    }
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      void tick();
+    },
+    stop() {
+      running = false;
+      clock.clearTimeout(timer);
+    },
+    check,
+  };
+}
+
+/**
+ * Shows a system notification for an alert when the user allowed them;
+ * the in-app list records it either way
+ */
+export function notify(event: AlertEvent): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(`Rate alert: ${event.from}/${event.to}`, { body: event.message, tag: event.ruleId });
+  } catch {
+    // some mobile browsers only allow notifications from a service worker
+  }
+}
+
+const pairKey = (p: CurrencyPair) => `${p.from}/${p.to}`;
+
+function uniquePairs(rules: CurrencyPair[]): CurrencyPair[] {
+  const seen = new Map<string, CurrencyPair>();
+  for (const r of rules) seen.set(pairKey(r), { from: r.from, to: r.to });
+  return [...seen.values()];
+}
+
+const isoDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
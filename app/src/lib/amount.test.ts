@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { amountInputText, parseAmount, parseLocaleNumber, readsAsPlainNumber } from './amount';
+import { buildSearch, parseUrlState } from './urlState';
+
+const value = (input: string, locale: string) => {
+  const res = parseAmount(input, locale);
+  return res.ok ? res.value : res.error;
+};
+
+describe('parseLocaleNumber', () => {
+  it('reads a lone separator as grouping only after a plausible first group', () => {
+    expect(parseLocaleNumber('1.234', ',')).toBe(1234);
+    expect(parseLocaleNumber('0.125', ',')).toBe(0.125);
+    expect(parseLocaleNumber('1234.567', ',')).toBe(1234.567);
+    expect(parseLocaleNumber('1,200', '.')).toBe(1200);
+    expect(parseLocaleNumber('0,125', '.')).toBe(0.125);
+  });
+
+  it('rejects grouping that starts with 0 or a long group', () => {
+    expect(parseLocaleNumber('0.125.000', ',')).toBeNaN();
+    expect(parseLocaleNumber('1234.567.890', ',')).toBeNaN();
+  });
+});
+
+describe('parseAmount', () => {
+  it('accepts a typed space as grouping', () => {
+    expect(value('1 234,56', 'de-DE')).toBe(1234.56);
+    expect(value('€ 1 234,56', 'de-DE')).toBe(1234.56);
+    expect(value('1 234 567.89', 'en-US')).toBe(1234567.89);
+    expect(value('12 3456', 'en-US')).toBe('Unexpected "3456".');
+  });
+});
+
+describe('amounts the app wrote itself, read back in de-DE', () => {
+  it.each([0.125, 1234.567, 1.234, 1234.5, 2500, 0.0000001, 1e21])('%s round-trips', (n) => {
+    expect(value(amountInputText(n, 'de-DE'), 'de-DE')).toBe(n);
+  });
+
+  it('round-trips through a shared link', () => {
+    for (const n of [0.125, 1234.567, 1.234]) {
+      const { amount } = parseUrlState(buildSearch({ amount: n }));
+      expect(amount).toBe(n);
+      expect(value(amountInputText(amount!, 'de-DE'), 'de-DE')).toBe(n);
+    }
+  });
+
+  it('flags text whose locale reading differs from the plain one', () => {
+    expect(readsAsPlainNumber('1.234', 1234)).toBe(false);
+    expect(readsAsPlainNumber('1,234', 1.234)).toBe(false);
+    expect(readsAsPlainNumber('1.234', 1.234)).toBe(true);
+    expect(readsAsPlainNumber('2500', 2500)).toBe(true);
+  });
+});
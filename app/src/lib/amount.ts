@@ -0,0 +1,229 @@
+/**
+ * Parsing of what people type into the Amount field: locale-formatted
+ * numbers ("1.234,56", "$1,200.00", "2.5k") and simple arithmetic on them
+ * ("120*3 + 45.5").
+ */
+
+export type AmountResult =
+  | {
+      ok: true;
+      value: number;
+      /** true when the input was more than a single number, e.g. "120*3" */
+      expression: boolean;
+    }
+  | { ok: false; error: string };
+
+const SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, bn: 1e9 };
+
+// Grouping characters besides "." and ",": apostrophe (de-CH), (narrow) no-break space (fr),
+// and a typed space ("1 234,56"), which only counts as grouping where MISPLACED_SPACE allows
+const GROUP_CHARS = /['’\u00a0\u202f ]/g;
+
+// First group of a grouped number: "1".."999", never "0" or four digits
+const LEADING_GROUP = /^[1-9]\d{0,2}$/;
+
+// A space that isn't a single one between a digit and exactly three more
+const MISPLACED_SPACE = /(?<!\d) | (?!\d{3}(?!\d))/;
+
+type Token = { type: 'num'; value: number; text: string } | { type: 'op'; value: string };
+
+/**
+ * Decimal separator of a locale, e.g. "," for "de-DE"
+ *
+ * @param locale - BCP 47 tag, defaults to the browser's
+ */
+export function decimalSeparator(locale?: string): string {
+  try {
+    const parts = new Intl.NumberFormat(locale).formatToParts(1.1);
+    return parts.find((p) => p.type === 'decimal')?.value ?? '.';
+  } catch {
+    return '.';
+  }
+}
+
+/**
+ * Reads one number written with any common grouping/decimal convention
+ *
+ * With both "." and "," present the last one is the decimal point. With one
+ * of them only: repeated means grouping ("1.234.567"); once, it is the
+ * locale's decimal separator, or grouping when exactly three digits follow
+ * and 1-3 digits not starting with 0 precede ("1,200" in en-US is 1200;
+ * "1,5", "0,125" and "1234,567" are decimals).
+ *
+ * @param text    - digits and separators, without sign, symbol or suffix
+ * @param decimal - the locale's decimal separator
+ *
+ * @returns The value, or NaN when text isn't a number
+ */
+export function parseLocaleNumber(text: string, decimal = '.'): number {
+  if (MISPLACED_SPACE.test(text)) return NaN;
+  const s = text.replace(GROUP_CHARS, '');
+  if (!/^(\d[\d.,]*|[.,]\d+)$/.test(s)) return NaN;
+
+  const lastDot = s.lastIndexOf('.');
+  const lastComma = s.lastIndexOf(',');
+  let decimalChar: string | undefined;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimalChar = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const sep = lastDot >= 0 ? '.' : ',';
+    const count = s.split(sep).length - 1;
+    const after = s.length - s.lastIndexOf(sep) - 1;
+    // grouping needs a plausible first group: "0.125" and "1234.567" are never thousands
+    const first = s.slice(0, s.indexOf(sep));
+    if (count === 1 && (sep === decimal || after !== 3 || !LEADING_GROUP.test(first))) decimalChar = sep;
+  }
+
+  const [int, frac, ...rest] = decimalChar ? s.split(decimalChar) : [s];
+  if (rest.length) return NaN;
+
+  // Grouping may only sit between digits, in threes after the first group
+  const groupSep = decimalChar === '.' ? ',' : decimalChar === ',' ? '.' : /[.,]/;
+  const groups = int.split(groupSep);
+  if (groups.length > 1 && (!LEADING_GROUP.test(groups[0]) || groups.slice(1).some((g) => g.length !== 3))) {
+    return NaN;
+  }
+  if (frac !== undefined && /[.,]/.test(frac)) return NaN;
+
+  return Number(`${groups.join('') || '0'}.${frac ?? ''}`.replace(/\.$/, ''));
+}
+
+/**
+ * A number as Amount field text that parseAmount reads back as the same
+ * value in locale: the locale's decimal separator and no grouping. For
+ * amounts the app wrote itself (links, history), which are plain numbers
+ * and would be misread as text: "1.234" is 1234 in de-DE.
+ *
+ * @param value  - the amount
+ * @param locale - the locale parseAmount will use; defaults to the browser's
+ */
+export function amountInputText(value: number, locale?: string): string {
+  try {
+    return value.toLocaleString(locale, { useGrouping: false, maximumFractionDigits: 20 });
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Whether text, read as a plain "."-decimal number, is value: false when the
+ * locale reading differs ("1.234" as 1234 in de-DE), so the UI can show how
+ * it was understood
+ *
+ * @param text  - Amount field text
+ * @param value - what parseAmount made of it
+ */
+export function readsAsPlainNumber(text: string, value: number): boolean {
+  const t = text.trim();
+  return /^\d*\.?\d*$/.test(t) && Number(t) === value;
+}
+
+/**
+ * Splits input into numbers and operators, dropping currency symbols and
+ * three-letter codes so "$1,200" and "1.200 EUR" read as plain numbers
+ */
+function tokenize(input: string, decimal: string): Token[] | string {
+  const tokens: Token[] = [];
+  const re =
+    /\s+|(\p{Sc})|([A-Z]{3})(?![a-z])|(\d(?:[\d.,'’\u00a0\u202f]| (?=\d{3}(?!\d)))*\d|\d|[.,]\d+)\s*([A-Za-z]+)?|([-+*/×÷()])|(.)/uy;
+  let m: RegExpExecArray | null;
+
+  while (re.lastIndex < input.length && (m = re.exec(input))) {
+    const [, symbol, code, number, suffix, op, other] = m;
+    if (symbol || code) continue;
+    if (number) {
+      const value = parseLocaleNumber(number, decimal);
+      if (Number.isNaN(value)) return `"${number}" isn't a number.`;
+      // a trailing code ("1.200 EUR") is dropped like a leading one
+      const factor = !suffix || /^[A-Z]{3}$/.test(suffix) ? 1 : SUFFIXES[suffix.toLowerCase()];
+      if (!factor) return `Unknown suffix "${suffix}"; use k, m or bn.`;
+      tokens.push({ type: 'num', value: value * factor, text: m[0].trim() });
+    } else if (op) {
+      tokens.push({ type: 'op', value: op === '×' ? '*' : op === '÷' ? '/' : op });
+    } else if (other) {
+      return `Unexpected "${other}".`;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Evaluates tokens with the usual precedence:
+ *   expr   = term (("+" | "-") term)*
+ *   term   = factor (("*" | "/") factor)*
+ *   factor = ("-" | "+") factor | number | "(" expr ")"
+ */
+function evaluate(tokens: Token[]): number {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (v: string) => peek()?.type === 'op' && peek().value === v;
+
+  const expr = (): number => {
+    let value = term();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].value;
+      const rhs = term();
+      value = op === '+' ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  const term = (): number => {
+    let value = factor();
+    while (isOp('*') || isOp('/')) {
+      const op = tokens[pos++].value;
+      const rhs = factor();
+      if (op === '/' && rhs === 0) throw new Error('Division by zero.');
+      value = op === '*' ? value * rhs : value / rhs;
+    }
+    return value;
+  };
+
+  const factor = (): number => {
+    const t = tokens[pos++];
+    if (!t) throw new Error('The expression is incomplete.');
+    if (t.type === 'num') return t.value;
+    if (t.value === '-') return -factor();
+    if (t.value === '+') return factor();
+    if (t.value === '(') {
+      const value = expr();
+      if (!isOp(')')) throw new Error('Missing ")".');
+      pos++;
+      return value;
+    }
+    throw new Error(`Unexpected "${t.value}".`);
+  };
+
+  const value = expr();
+  if (pos < tokens.length) {
+    const t = tokens[pos];
+    throw new Error(`Unexpected "${t.type === 'num' ? t.text : t.value}".`);
+  }
+  return value;
+}
+
+/**
+ * Parses an Amount field value
+ *
+ * @param input  - raw text, e.g. "1.234,56", "$1,200.00", "2.5k" or "120*3 + 45.5"
+ * @param locale - decides whether a lone "," or "." is the decimal point; defaults to the browser's
+ *
+ * @returns { ok, value, expression } or { ok: false, error } with a message for the user;
+ * blank input is 0
+ */
+export function parseAmount(input: string, locale?: string): AmountResult {
+  if (!input.trim()) return { ok: true, value: 0, expression: false };
+
+  const tokens = tokenize(input, decimalSeparator(locale));
+  if (typeof tokens === 'string') return { ok: false, error: tokens };
+  if (!tokens.length) return { ok: false, error: 'Enter a number.' };
+
+  try {
+    const value = evaluate(tokens);
+    if (!Number.isFinite(value)) return { ok: false, error: 'The result is too large.' };
+    return { ok: true, value, expression: tokens.length > 1 };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : 'Invalid amount.' };
+  }
+}
@@ -1,68 +1,60 @@
-export type Currency = { code: string; name: string; symbol?: string };
+import {
+  withFailover,
+  type CallOptions,
+  type Currency,
+  type CurrencyType,
+  type ConvertResponse,
+  type RateProvider,
+  type Rates,
+} from './providers';
+import { isAbortError } from './http';
+import { markClosed, newestLatest, saveDays, saveLatest, savedDays } from './snapshots';
+import { runPool } from './concurrency';
+import { isOfflineError, markOffline, markOnline } from './offline';
+import { ApiError, isApiError, mostRelevant } from './errors';
+import { div, mul, rational, toNumber, type Rational } from './money';
+import { getConfig } from './config';
+import { storage } from './storage';
+
+export type { Currency, CurrencyType, ConvertResponse };
 
-const BASE =
-  import.meta.env.VITE_CURRENCYBEACON_BASE || 'https://api.currencybeacon.com/v1';
-const API_KEY = import.meta.env.VITE_CURRENCYBEACON_API_KEY;
+const ONE_DAY = 86_400_000;
 
-type ConvertResponse = { result: number; rate?: number; meta?: Record<string, unknown> };
+// Long ranges are fetched as several windows; this many at a time
+const TIMESERIES_CONCURRENCY = 2;
 
-const ONE_DAY = 86_400_000;
+// Window size for providers that don't state their own limit
+const DEFAULT_MAX_RANGE_DAYS = 365;
+
+// Beyond this many missing days the per-day /historical fallback is skipped
+const MAX_PER_DAY_FALLBACK = 120;
+
+// A past day without a fixing (weekend, holiday) uses the last rate up to this many days earlier
+const CLOSED_DAY_LOOKBACK = 4;
+
+// Crypto codes seen in any loaded crypto list; used to pick a pivot for charts
+const knownCrypto = new Set<string>();
+
+// Symbols from the loaded currency lists, for formatting
+const knownSymbols = new Map<string, string>();
 
 /**
- * Creates a URL-encoded query string for CurrencyBeacon requests.
- *
- * Iterates over the provided params object and adds each non-nullish entry
- * to a URLSearchParams instance, appends API key
- *
- * @param params - A flat map of query parameters to include in the request URL
- * { from: 'USD', to: 'EUR', amount: 1 }
+ * Symbol the provider lists for a currency, e.g. "₿" for BTC
  *
- * @returns a URLSearchParams instance containing the encoded parameters and API_KEY
+ * @param code - currency code
+ * @returns The symbol, or undefined when none was loaded
  */
-function buildQuery(
-  params: Record<string, string | number | undefined>
-): URLSearchParams {
-  const query = new URLSearchParams();
-
-  for (const [key, value] of Object.entries(params)) {
-    const hasValue = value !== undefined && value !== null;
-    if (hasValue) query.set(key, String(value));
-  }
-
-  if (API_KEY) {
-    query.set('api_key', API_KEY);
-  }
-
-  return query;
+export function currencySymbol(code: string): string | undefined {
+  return knownSymbols.get(code.trim().toUpperCase());
 }
 
 /**
- * Performs a GET request against the CurrencyBeacon API and returns the parsed JSON body, 
- * Also, removes any trailing slash in the URL, appends the endpoint "convert", "currencies", utilzes buildQuery
+ * Whether a code belongs to a crypto currency loaded via getCurrencies('crypto')
  *
- *
- * @param endpoint - path segment e.g., "convert", "currencies"
- * @param params - Key/value pairs to send as query parameters, buildQuery will URL-encode
- *
- * @returns A promise that resolves to the parsed JSON response body
- *
- * @throws Error - If the network request fails or the response status is not OK
+ * @param code - currency code e.g. "BTC"
  */
-async function get(endpoint: string, params: Record<string, any> = {}) {
-  const url = `${BASE.replace(/\/+$/, '')}/${endpoint}?${buildQuery(params)}`;
-  const res = await fetch(url, { headers: { Accept: 'application/json' } });
-
-  if (!res.ok) {
-    let msg = '';
-    try {
-      const j = await res.json();
-      msg = j?.message || j?.error || '';
-    } catch {
-      msg = (await res.text().catch(() => '')).slice(0, 200);
-    }
-    throw new Error(`HTTP ${res.status} on ${endpoint}${msg ? ': ' + msg : ''}`);
-  }
-  return res.json();
+export function isCrypto(code: string): boolean {
+  return knownCrypto.has(code.trim().toUpperCase());
 }
 
 /**
@@ -100,142 +92,26 @@ function currencyNames(currencies: Currency[]): Currency[] {
 }
 
 /**
- * List of currencies from API payload
- * defensive processing of data - arrays vs. objects, different field names, mixed casing,
- *
- * @param raw  - The original JSON payload returned by the API.
- * @param type - Which group to prefer when both are present: "fiat" or "crypto"
- *
- * @returns An array of normalized currencies: { code: string; name: string; symbol?: string }[]
- */
-function parseCurrenciesJSON(raw: any, type: 'fiat' | 'crypto'): Currency[] {
-  const sources = [
-    raw?.response?.currencies,
-    raw?.response?.[type],
-    raw?.currencies,
-    raw?.data?.currencies,
-    raw?.data?.[type],
-    raw?.response,
-    raw, // as a last resort, try the top-level object itself
-  ];
-
-  // Accumulate unique currencies by their normalized code (e.g., "USD")
-  const currencyByCode: Record<string, Currency> = {};
-
-  // Normalize any input to an uppercase string code.
-  const normalizeCode = (value: unknown) => String(value ?? '').trim().toUpperCase();
-
-  // Safely add/overwrite a currency candidate if it looks valid.
-  const addCandidate = (codeRaw: unknown, nameRaw?: unknown, symbolRaw?: unknown) => {
-    const code = normalizeCode(codeRaw);
-
-    // Only accept plausible ISO-like alphabetic codes, 3–5 chars (e.g., "USD", "XBT")
-    if (!/^[A-Z]{3,5}$/.test(code)) return;
-
-    const name = String(nameRaw ?? code);
-    const symbol = symbolRaw as string | undefined;
-
-    currencyByCode[code] = { code, name, symbol };
-  };
-
-  for (const source of sources) {
-    if (!source || typeof source !== 'object') continue;
-
-    // Array of currency objects
-    if (Array.isArray(source)) {
-      for (const item of source) {
-        const v: any = item ?? {};
-
-        // Prefer alphabetic short code fields over numeric codes
-        const code =
-          v.short_code ??          // preferred (often ISO alpha)
-          v.code ??                // sometimes alpha, sometimes numeric
-          v.iso_code ??            // provider-specific
-          v.ticker ??              // crypto
-          v.currency;              // generic field
-
-        const name =
-          v.name ??
-          v.currency_name ??
-          v.fullName ??
-          v.currency ??
-          v.label ??
-          code;
-
-        const symbol = v.symbol ?? v.symbol_native ?? v.sign;
-
-        if (code && name) addCandidate(code, name, symbol);
-      }
-      continue;
-    }
-
-    // Object map (keys may be codes OR numeric IDs; values can be strings or objects)
-    for (const [key, value] of Object.entries(source)) {
-      // map code to readable name
-      if (typeof value === 'string') {
-        if (/^[A-Z]{3,5}$/.test(key)) addCandidate(key, value);
-        continue;
-      }
-
-      const v: any = value ?? {};
-      const code =
-        v.short_code ??
-        v.code ??
-        v.iso_code ??
-        v.ticker ??
-        v.currency ??
-        (/^[A-Z]{3,5}$/.test(key) ? key : undefined);
-
-      const name =
-        v.name ??
-        v.currency_name ??
-        v.fullName ??
-        v.currency ??
-        v.label ??
-        code;
-
-      const symbol = v.symbol ?? v.symbol_native ?? v.sign;
-
-      if (code && name) addCandidate(code, name, symbol);
-    }
-  }
-
-  // Sort by name A-Z, then code
-  return Object.values(currencyByCode).sort(
-    (a, b) => a.name.localeCompare(b.name) || a.code.localeCompare(b.code),
-  );
-}
-
-/**
- * Parses CurrencyBeacon rate and maps into { CODE: number }
- *
- * @param json - Raw JSON from CurrencyBeacon (latest, historical)
- * @returns A flat map of uppercase currency codes to numeric rates
- */
-function parseRates(json: any): Record<string, number> {
-  const rates = json?.rates ?? json?.response?.rates;
-  if (!rates || typeof rates !== 'object') return {};
-
-  const out: Record<string, number> = {};
-  for (const [code, value] of Object.entries(rates)) {
-    if (typeof value === 'number' && Number.isFinite(value)) {
-      out[String(code).toUpperCase()] = value;
-    }
-  }
-  return out;
-}
-
-/**
- * Fetches a list of currencies, adds display names, sorts, and caches the result in localStorage for 24 hours
+ * Fetches a list of currencies, adds display names, sorts, and caches the result in storage (localStorage in the browser) for 24 hours
  * to reduce quota usage/rate-limit risk
  *
+ * Each provider in the failover chain is asked in turn; a provider whose list looks
+ * implausibly short counts as a failure.
+ *
  * @param type - which list to load: "fiat" (default) or "crypto"
+ * @param opts - signal to cancel the requests
  * @returns Promise resolving to a normalized array of currencies
  */
-export async function getCurrencies(type: 'fiat' | 'crypto' = 'fiat'): Promise<Currency[]> {
+export async function getCurrencies(
+  type: CurrencyType = 'fiat',
+  opts: CallOptions = {},
+): Promise<Currency[]> {
   // Try cache first
-  const cacheKey = `cb_currencies_v6_${type}`;
-  const cached = localStorage.getItem(cacheKey);
+  const cacheKey = `cb_currencies_v7_${type}`;
+  const cached = storage().getItem(cacheKey);
+
+  // A stale but valid list beats an empty one when every source is unreachable
+  let staleItems: Currency[] = [];
 
   if (cached) {
     try {
@@ -249,61 +125,190 @@ export async function getCurrencies(type: 'fiat' | 'crypto' = 'fiat'): Promise<C
         (items as any[]).every((x) => /^[A-Z]{3,5}$/.test(x?.code));
 
       if (fresh && looksValid) {
-        return items as Currency[];
+        return remember(items as Currency[]);
       }
+      if (looksValid) staleItems = items as Currency[];
     } catch {
       // ignore and refetch.
     }
   }
 
-  // Get currencies
+  // Get currencies; failures are kept to explain an empty result
   let list: Currency[] = [];
+  const failures: unknown[] = [];
   try {
-    const raw = await get('currencies', { type });
-    list = parseCurrenciesJSON(raw, type);
-  } catch {
-    // ignore and try fallback below
+    list = await withFailover(async (provider) => {
+      const items = await provider.currencies(type, opts);
+      if (items.length < 5) {
+        throw new ApiError('malformed', `${provider.label} returned too few currencies.`);
+      }
+      return items;
+    });
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    failures.push(e);
+    // try fallback below
   }
 
-  // codes from /latest if /currencies failed
-  if (!list || list.length < 5) {
+  // codes from /latest if /currencies failed everywhere (rates are fiat, so not for crypto)
+  if (type === 'fiat' && (!list || list.length < 5)) {
     try {
-      const latest = await get('latest', {});
-      const rates = parseRates(latest);
+      const rates = await withFailover((provider) => latestRates(provider, 'USD', undefined, opts));
       const codes = Array.from(new Set(['USD', ...Object.keys(rates)])) // seed with USD for sanity
         .filter((c) => /^[A-Z]{3,5}$/.test(c));
       list = codes.map((c) => ({ code: c, name: c })); // names filled next step
-    } catch {
-      // If even fallback fails, return an empty list after adding names/sort below
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      failures.push(e);
     }
   }
 
-  // add names and stable sort
-  list = currencyNames(list).sort(
-    (a, b) => a.name.localeCompare(b.name) || a.code.localeCompare(b.code),
-  );
+  if (!list.length && staleItems.length) return remember(staleItems);
+  // Nothing at all: say why rather than showing an empty picker
+  if (!list.length && failures.length) throw mostRelevant(failures);
+
+  // add names, tag with the list type and stable sort
+  list = currencyNames(list)
+    .map((c) => ({ ...c, type }))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.code.localeCompare(b.code));
 
   // Cache & return
-  localStorage.setItem(cacheKey, JSON.stringify({ at: Date.now(), items: list }));
-  return list;
+  storage().setItem(cacheKey, JSON.stringify({ at: Date.now(), items: list }));
+  return remember(list);
+}
+
+/**
+ * Records crypto codes and symbols from a loaded list so isCrypto() and
+ * currencySymbol() can answer later
+ *
+ * @param items - currencies as returned by getCurrencies
+ * @returns The same items, for chaining
+ */
+function remember(items: Currency[]): Currency[] {
+  for (const c of items) {
+    if (c.type === 'crypto') knownCrypto.add(c.code);
+    if (c.symbol) knownSymbols.set(c.code, c.symbol);
+  }
+  return items;
+}
+
+/**
+ * Merges the fiat and crypto lists into one, keeping the fiat entry when a code
+ * appears in both (some providers list e.g. XAU under each)
+ *
+ * @param fiat   - currencies from getCurrencies('fiat')
+ * @param crypto - currencies from getCurrencies('crypto')
+ * @returns One list with unique codes, fiat first then crypto, each sorted by name
+ */
+export function mergeCurrencies(fiat: Currency[], crypto: Currency[]): Currency[] {
+  const fiatCodes = new Set(fiat.map((c) => c.code));
+  return [...fiat, ...crypto.filter((c) => !fiatCodes.has(c.code))];
+}
+
+/**
+ * Exact cross-rate between two currencies from a single set of rates against one pivot
+ *
+ * @param rates - rates against base, e.g. { EUR: 0.91, GBP: 0.78 } for USD
+ * @param from  - code of the source currency
+ * @param to    - code of the target currency
+ * @param base  - pivot the rates are quoted against (default "USD")
+ *
+ * @returns How many TO one FROM buys, or undefined when either side is missing
+ */
+function exactCrossRate(rates: Rates, from: string, to: string, base = 'USD'): Rational | undefined {
+  // Resolve each side relative to the pivot (1 when the side is the pivot)
+  const fromRate = from === base ? 1 : rates[from];
+  const toRate   = to   === base ? 1 : rates[to];
+
+  // If either side is missing, we can't compute the cross-rate
+  if (typeof fromRate !== 'number' || typeof toRate !== 'number' || !fromRate) return undefined;
+
+  // Cross-rate: TO/pivot divided by FROM/pivot, as a fraction so nothing drifts
+  return div(rational(toRate), rational(fromRate));
+}
+
+/** exactCrossRate as the nearest number, for charts and comparisons */
+function crossRate(rates: Rates, from: string, to: string, base = 'USD'): number | undefined {
+  const rate = exactCrossRate(rates, from, to, base);
+  return rate && toNumber(rate);
+}
+
+/**
+ * amount * rate, exactly, with number copies for callers that only chart or compare
+ *
+ * @param amount - amount in the FROM currency
+ * @param rate   - exact rate for 1 FROM in TO
+ */
+function exactConversion(
+  amount: number,
+  rate: Rational,
+): Pick<ConvertResponse, 'result' | 'rate' | 'exact'> {
+  const result = mul(rational(amount), rate);
+  return { result: toNumber(result), rate: toNumber(rate), exact: { result, rate } };
+}
+
+/**
+ * Fetches latest rates from one provider and keeps a dated snapshot of them
+ * for offline use
+ *
+ * @param provider - source to ask
+ * @param base     - base currency code
+ * @param symbols  - optional list of target codes
+ * @param opts     - signal to cancel the request
+ */
+async function latestRates(
+  provider: RateProvider,
+  base: string,
+  symbols?: string[],
+  opts: CallOptions = {},
+): Promise<Rates> {
+  const rates = await provider.latest({ base, symbols }, opts);
+  void saveLatest(base, rates);
+  return rates;
+}
+
+/**
+ * Cross-rate from the newest saved /latest snapshot that covers both sides.
+ * Looks at USD-based snapshots first, then ones based on either side.
+ *
+ * @param from - code of the source currency
+ * @param to   - code of the target currency
+ *
+ * @returns The rate and the day it applies to, or undefined when nothing saved covers the pair
+ */
+async function snapshotRate(from: string, to: string): Promise<{ rate: Rational; asOf: string } | undefined> {
+  let best: { rate: Rational; asOf: string } | undefined;
+
+  for (const base of [...new Set(['USD', from, to])]) {
+    const snap = await newestLatest(base);
+    const rate = snap && exactCrossRate(snap.rates, from, to, base);
+    if (snap && rate !== undefined && (!best || snap.date > best.asOf)) {
+      best = { rate, asOf: snap.date };
+    }
+  }
+  return best;
 }
 
 /**
  * Fallback conversion via USD using /latest 
  * Converts an amount from one currency to another by using USD as a pivot.
  *
- * @param from   code of the source currency
- * @param to     code of the target currency
- * @param amount amount in the from currency to be converted
+ * @param provider source to ask for USD-based rates
+ * @param from     code of the source currency
+ * @param to       code of the target currency
+ * @param amount   amount in the from currency to be converted
+ * @param opts     signal to cancel the request
  *
  * @returns An object with: result - numeric converted value, rate - per-unit rate, meta - info indicating this was a fallback via USD
  *
- * @throws Error if required rates are not available in the `/latest` response
+ * @throws ApiError (not-found) if required rates are not available in the `/latest` response
  */
 async function convertViaUSD(
+  provider: RateProvider,
   from: string,
   to: string,
-  amount: number
+  amount: number,
+  opts: CallOptions = {},
 ): Promise<ConvertResponse> {
   // Build the minimal list of symbols we need from /latest.
   // If either side is USD, we don't need to request it (it's 1)
@@ -311,172 +316,695 @@ async function convertViaUSD(
   if (from !== 'USD') symbolsNeeded.push(from);
   if (to !== 'USD') symbolsNeeded.push(to);
 
-  // Deduplicate and join as CSV for the API
-  const symbols = [...new Set(symbolsNeeded)].join(',');
-
   // Fetch USD-based rates; pass symbols to keep the payload small if possible
-  const latest = await get('latest', symbols ? { symbols } : {});
-  const rates = parseRates(latest); // e.g., { EUR: 0.91, GBP: 0.78 }
-
-  // Resolve each side relative to USD (1 when the side is USD)
-  const fromRateUSD = from === 'USD' ? 1 : rates[from];
-  const toRateUSD   = to   === 'USD' ? 1 : rates[to];
+  const rates = await latestRates(provider, 'USD', [...new Set(symbolsNeeded)], opts); // e.g., { EUR: 0.91, GBP: 0.78 }
 
-  // If either side is missing, we can't compute the cross-rate
-  if (typeof fromRateUSD !== 'number' || typeof toRateUSD !== 'number') {
-    throw new Error('Fallback rates unavailable.');
+  const perUnitRate = exactCrossRate(rates, from, to);
+  if (perUnitRate === undefined) {
+    throw new ApiError('not-found', `${provider.label} has no ${from}→${to} rate.`);
   }
 
-  // Cross-rate: TO/USD divided by FROM/USD.
-  const perUnitRate = toRateUSD / fromRateUSD;
-
   return {
-    result: amount * perUnitRate,
-    rate: perUnitRate,
+    ...exactConversion(amount, perUnitRate),
     meta: { fallback: true, base: 'USD', rates },
   };
 }
 
 
 /**
- * Converts a single amount using CurrencyBeacon's `/convert` endpoint,
- * and falls back to a USD cross-rate if the primary call fails
- *
+ * Converts a single amount using the provider's convert endpoint,
+ * and falls back to a USD cross-rate if the primary call fails.
+ * When a provider can do neither, the next provider in the chain is tried.
+ * Without a network, the newest saved snapshot answers instead (meta.offline).
  *
  * @param params - Conversion parameters.
  *   @param params.from   source currency code "USD", "GBP"
  *   @param params.to     target currency code
  *   @param params.amount Amount in the from currency to convert
+ *   @param params.signal optional AbortSignal; aborting stops the request and any fallbacks
  *
- * @returns Promise resolving to: result - converted numeric amount, rate - per-unit rate, meta - was it via USD?
+ * @returns Promise resolving to: result - converted numeric amount, rate - per-unit rate, meta - was it via USD?, provider - who answered
  */
 export async function convertOnce(
-  params: { from: string; to: string; amount: number }
+  params: { from: string; to: string; amount: number; signal?: AbortSignal }
 ): Promise<ConvertResponse> {
   const from = String(params.from || '').trim().toUpperCase();
   const to = String(params.to || '').trim().toUpperCase();
   const amount = Number(params.amount) || 0;
+  const opts = { signal: params.signal };
 
   try {
-    // Primary call to /convert
-    const json = await get('convert', { from, to, amount });
-
-    const result = Number(
-      json?.result ??
-      json?.response?.value ??
-      json?.response?.result ??
-      json?.data?.result ??
-      json?.value
-    );
+    const res = await withFailover(async (provider) => {
+      let res: ConvertResponse;
+      try {
+        // Primary call to /convert
+        res = withExact(await provider.convert({ from, to, amount }, opts), amount);
+        // Keep the direct rate too, as a FROM-based snapshot
+        if (res.rate !== undefined) void saveLatest(from, { [to]: res.rate });
+      } catch (e) {
+        // A bad key, spent quota or dead connection will fail /latest just the same
+        if (isAbortError(e) || isApiError(e, 'auth', 'quota', 'network')) throw e;
+        // Fallback: cross-rate via USD (/latest)
+        res = await convertViaUSD(provider, from, to, amount, opts);
+      }
+      return { ...res, provider: provider.id };
+    });
+    markOnline();
+    return res;
+  } catch (e) {
+    if (!isOfflineError(e)) throw e;
+
+    // Offline: newest saved rates, flagged so the UI can say how old they are
+    const saved = await snapshotRate(from, to);
+    if (!saved) throw e;
+    markOffline(saved.asOf);
+    return {
+      ...exactConversion(amount, saved.rate),
+      meta: { offline: true, asOf: saved.asOf },
+      provider: 'snapshot',
+    };
+  }
+}
 
-    // If a finite number came back, compute a per-unit rate
-    if (Number.isFinite(result)) {
-      const perUnit = amount ? result / amount : undefined;
-      return { result, rate: perUnit, meta: json };
-    }
+/**
+ * Converts an amount at the rate of a past day, e.g. what 500 GBP was worth
+ * in EUR on 2024-03-01
+ *
+ * Uses the same daily rates as the chart (getTimeseries: USD pivot, /historical
+ * fallback, saved days offline). Markets don't fix on weekends and holidays, so
+ * such a day gets the last rate before it, and meta.date says which day that was.
+ *
+ * @param params
+ *   - from, to: currency codes
+ *   - amount:   amount in FROM
+ *   - date:     "YYYY-MM-DD"; today or later is the same as convertOnce
+ *   - signal:   optional AbortSignal
+ *
+ * @returns result and rate (exact too), meta { date, requestedDate }, provider - who answered
+ *
+ * @throws Error when no source has a rate for that day
+ */
+export async function convertAt(params: {
+  from: string;
+  to: string;
+  amount: number;
+  date: string;
+  signal?: AbortSignal;
+}): Promise<ConvertResponse> {
+  const from = params.from.trim().toUpperCase();
+  const to = params.to.trim().toUpperCase();
+  const amount = Number(params.amount) || 0;
+  const { date, signal } = params;
 
-    // Non-numeric or missing result - treat as an unexpected
-    throw new Error('Unexpected convert response shape.');
-  } catch {
-    // Fallback: cross-rate via USD (/latest)
-    return convertViaUSD(from, to, amount);
+  if (date >= new Date().toISOString().slice(0, 10)) {
+    return convertOnce({ from, to, amount, signal });
+  }
+
+  let provider: string | undefined;
+  const series = await getTimeseries({
+    from,
+    to,
+    start: new Date(Date.parse(date) - CLOSED_DAY_LOOKBACK * ONE_DAY).toISOString().slice(0, 10),
+    end: date,
+    signal,
+    onSource: (source) => (provider = source),
+  });
+
+  // sorted, so the last point is the day itself or the closest one before it
+  const point = series[series.length - 1];
+  if (!point) throw new ApiError('not-found', `No ${from}/${to} rate found for ${date}.`);
+
+  return {
+    ...exactConversion(amount, rational(point.rate)),
+    meta: {
+      date: point.date,
+      requestedDate: date,
+      ...(provider === 'snapshot' && { offline: true }),
+    },
+    provider,
+  };
+}
+
+/**
+ * Fills in exact values for a provider's convert answer: the result exactly as
+ * the provider wrote it, and the per-unit rate derived from it
+ *
+ * @param res    - provider answer
+ * @param amount - amount that was converted
+ */
+function withExact(res: ConvertResponse, amount: number): ConvertResponse {
+  if (res.exact) return res;
+  const result = rational(res.result);
+  const rate = amount
+    ? div(result, rational(amount))
+    : res.rate !== undefined
+      ? rational(res.rate)
+      : undefined;
+  return { ...res, rate: rate && toNumber(rate), exact: { result, rate } };
+}
+
+
+/**
+ * Converts one amount into many target currencies from a single USD-based
+ * /latest call, so adding targets doesn't add requests.
+ *
+ * @param params - Conversion parameters.
+ *   @param params.from    source currency code
+ *   @param params.targets target currency codes, in display order
+ *   @param params.amount  Amount in the from currency to convert
+ *   @param params.signal  optional AbortSignal to cancel the request
+ *
+ * @returns Promise resolving to a map of target code to { result, rate, meta, provider };
+ * targets the provider has no rate for are left out. Offline, saved snapshots answer instead.
+ */
+export async function convertMany(
+  params: { from: string; targets: string[]; amount: number; signal?: AbortSignal }
+): Promise<Record<string, ConvertResponse>> {
+  const from = String(params.from || '').trim().toUpperCase();
+  const targets = [...new Set(params.targets.map((t) => t.trim().toUpperCase()))];
+  const amount = Number(params.amount) || 0;
+  if (!targets.length) return {};
+
+  const symbols = [from, ...targets].filter((c) => c !== 'USD');
+
+  try {
+    const out = await withFailover(async (provider) => {
+      const rates = await latestRates(provider, 'USD', [...new Set(symbols)], {
+        signal: params.signal,
+      });
+
+      const out: Record<string, ConvertResponse> = {};
+      for (const to of targets) {
+        const rate = exactCrossRate(rates, from, to);
+        if (rate === undefined) continue;
+        out[to] = {
+          ...exactConversion(amount, rate),
+          meta: { base: 'USD' },
+          provider: provider.id,
+        };
+      }
+
+      // Nothing usable means this source doesn't know `from`; try the next one
+      if (!Object.keys(out).length) {
+        throw new ApiError('not-found', `${provider.label} has no rates for ${from}.`);
+      }
+      return out;
+    });
+    markOnline();
+    return out;
+  } catch (e) {
+    if (!isOfflineError(e)) throw e;
+
+    const out: Record<string, ConvertResponse> = {};
+    for (const to of targets) {
+      const saved = await snapshotRate(from, to);
+      if (!saved) continue;
+      markOffline(saved.asOf);
+      out[to] = {
+        ...exactConversion(amount, saved.rate),
+        meta: { offline: true, asOf: saved.asOf },
+        provider: 'snapshot',
+      };
+    }
+    if (!Object.keys(out).length) throw e;
+    return out;
   }
 }
 
+/**
+ * Current rates for several pairs from a single USD-based /latest call
+ *
+ * Unlike convertMany there is no offline fallback: callers such as alerts
+ * must not act on a saved rate as if it were live.
+ *
+ * @param params
+ *   - pairs:  { from, to } codes
+ *   - signal: optional AbortSignal to cancel the request
+ *
+ * @returns Promise of one rate per pair, in the order given (undefined where no rate is known)
+ */
+export async function latestPairRates(params: {
+  pairs: CurrencyPair[];
+  signal?: AbortSignal;
+}): Promise<(number | undefined)[]> {
+  const pairs = params.pairs.map((p) => ({
+    from: p.from.trim().toUpperCase(),
+    to: p.to.trim().toUpperCase(),
+  }));
+  if (!pairs.length) return [];
+
+  const symbols = [...new Set(pairs.flatMap((p) => [p.from, p.to]))].filter((c) => c !== 'USD');
+
+  const rates = await withFailover((provider) =>
+    latestRates(provider, 'USD', symbols, { signal: params.signal }),
+  );
+  markOnline();
+  return pairs.map((p) => crossRate(rates, p.from, p.to));
+}
+
+/**
+ * Latest rates against one base, e.g. for a rates table
+ *
+ * @param params
+ *   - base:    base currency code
+ *   - symbols: optional target codes; all the provider has when omitted
+ *   - signal:  optional AbortSignal to cancel the request
+ *
+ * @returns Promise of { base, rates, provider } - provider is "snapshot" and asOf the
+ * snapshot's day when offline
+ *
+ * @throws ApiError - the most relevant failure when no source answers; network when
+ *   offline with nothing saved for base
+ */
+export async function getLatestRates(params: {
+  base: string;
+  symbols?: string[];
+  signal?: AbortSignal;
+}): Promise<{ base: string; rates: Rates; provider: string; asOf?: string }> {
+  const base = params.base.trim().toUpperCase();
+  const symbols = params.symbols?.length
+    ? [...new Set(params.symbols.map((c) => c.trim().toUpperCase()))]
+    : undefined;
+  const pick = (rates: Rates) =>
+    symbols ? Object.fromEntries(symbols.filter((c) => c in rates).map((c) => [c, rates[c]])) : rates;
+
+  try {
+    const out = await withFailover(async (provider) => {
+      const rates = pick(await latestRates(provider, base, symbols, { signal: params.signal }));
+      if (!Object.keys(rates).length) {
+        throw new ApiError('not-found', `${provider.label} has no rates against ${base}.`);
+      }
+      return { base, rates, provider: provider.id };
+    });
+    markOnline();
+    return out;
+  } catch (e) {
+    if (isAbortError(e) || !isOfflineError(e)) throw e;
+
+    const snap = await newestLatest(base);
+    const rates = snap ? pick(snap.rates) : {};
+    if (!snap || !Object.keys(rates).length) throw e;
+    markOffline(snap.date);
+    return { base, rates, provider: 'snapshot', asOf: snap.date };
+  }
+}
 
 // Historical (chart)
 
 export type TimeseriesPoint = { date: string; rate: number };
 
+export type CurrencyPair = { from: string; to: string };
+
+/** How many days of a requested range are resolved so far */
+export type TimeseriesProgress = { loaded: number; total: number };
+
+/**
+ * Splits missing days into windows no longer than maxDays calendar days,
+ * each trimmed to start and end on a missing day
+ *
+ * @param missing - missing days, "YYYY-MM-DD", oldest first
+ * @param maxDays - longest range the provider accepts in one request
+ */
+function missingWindows(missing: string[], maxDays: number): string[][] {
+  const wanted = new Set(missing);
+  const span = dayRange(missing[0], missing[missing.length - 1]);
+
+  const windows: string[][] = [];
+  for (let i = 0; i < span.length; i += maxDays) {
+    const window = span.slice(i, i + maxDays);
+    const first = window.findIndex((d) => wanted.has(d));
+    if (first === -1) continue;
+    let last = window.length - 1;
+    while (!wanted.has(window[last])) last--;
+    windows.push(window.slice(first, last + 1));
+  }
+  return windows;
+}
+
+/**
+ * Every day from start to end inclusive, as "YYYY-MM-DD"
+ */
+function dayRange(startISO: string, endISO: string): string[] {
+  const start = new Date(startISO);
+  const end = new Date(endISO);
+
+  // Build the list of YYYY-MM-DD strings for each day in the range (inclusive).
+  // The dates parse as UTC midnight, so step in UTC too: local days repeat or
+  // vanish across DST changes
+  const days: string[] = [];
+  for (let d = new Date(start); d <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+    days.push(d.toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+/**
+ * Fetches daily time series for one or more cross-rates (1 FROM - TO each)
+ * from one provider, with every pair sharing the same requests
+ *
+ * Past days never change, so days already saved (see snapshots.ts) are reused
+ * and only the missing ones are requested: first with timeseries requests in
+ * provider-sized windows, then (when perDay is set and the gap is small enough)
+ * with historical requests for whatever is still missing,
+ * HISTORICAL_CONCURRENCY at a time.
+ *
+ * @param provider - source to ask
+ * @param params
+ *   - pairs:      { from, to } codes, all quoted against the same pivot
+ *   - start, end: inclusive range "YYYY-MM-DD"
+ *   - days:       only these days (sorted, within start..end) instead of every day
+ *   - base:       pivot to request rates against; "USD" or one side of the pair
+ *   - perDay:     whether to fall back to the per-day historical loop
+ *   - signal:     cancels the requests; aborting also stops the per-day loop
+ *   - onProgress: called as days are resolved from cache or network
+ *
+ * @returns One series per pair, in the order given
+ *
+ * @throws ApiError (not-found) if the provider returned no usable days for any pair, so the chain moves on
+ */
+async function timeseriesFrom(
+  provider: RateProvider,
+  params: {
+    pairs: CurrencyPair[];
+    start: string;
+    end: string;
+    days?: string[];
+    base: string;
+    perDay: boolean;
+    signal?: AbortSignal;
+    onProgress?: (progress: TimeseriesProgress) => void;
+  },
+): Promise<TimeseriesPoint[][]> {
+  const { pairs, start: startISO, end: endISO, base, onProgress } = params;
+  let { perDay } = params;
+  const opts = { signal: params.signal };
+  const symbols = [...new Set(pairs.flatMap((p) => [p.from, p.to]))].filter((c) => c !== base);
+  const today = new Date().toISOString().slice(0, 10);
+  const days = params.days ?? dayRange(startISO, endISO);
+
+  // every rate seen per day, and the days that need nothing more
+  // (all pairs resolved, or market closed)
+  const rates = new Map<string, Rates>();
+  const known = new Set<string>();
+  let required = pairs;
+
+  const complete = (day: Rates) => required.every((p) => crossRate(day, p.from, p.to, base) !== undefined);
+  const add = (date: string, day: Rates) => {
+    const merged = { ...rates.get(date), ...day };
+    rates.set(date, merged);
+    if (complete(merged)) known.add(date);
+  };
+  const report = () => onProgress?.({ loaded: known.size, total: days.length });
+
+  // Saved past days first; today may still move, so it is always refetched
+  for (const snap of await savedDays(base, startISO, endISO)) {
+    if (snap.date >= today) continue;
+    add(snap.date, snap.rates);
+    if (snap.closed) known.add(snap.date);
+  }
+  report();
+
+  let missing = days.filter((d) => !known.has(d));
+
+  // timeseries requests against the pivot, one per provider-sized window of missing days
+  if (missing.length) {
+    const windows = missingWindows(missing, provider.maxRangeDays ?? DEFAULT_MAX_RANGE_DAYS);
+    const seen = new Set<string>([base]);
+
+    await runPool(
+      windows,
+      TIMESERIES_CONCURRENCY,
+      async (window) => {
+        const buckets = await provider.timeseries(
+          { base, symbols, start: window[0], end: window[window.length - 1] },
+          opts,
+        );
+        void saveDays(base, buckets);
+
+        const closed: string[] = [];
+        let answered = false;
+        for (const d of window) {
+          const day = buckets[d];
+          if (day && Object.keys(day).length) {
+            Object.keys(day).forEach((c) => seen.add(c));
+            add(d, day);
+            answered = true;
+          } else if (d < today) {
+            closed.push(d);
+          }
+        }
+
+        // Days absent from a real answer are closed days, not failures -
+        // but an answer without any usable day says nothing about the calendar
+        if (answered) {
+          for (const d of closed) known.add(d);
+          void markClosed(base, closed);
+        }
+        report();
+        // If empty/unsupported, the window falls through to the per-day fallback
+      },
+      // No point looping over days when cancelled, without a network or
+      // access; other errors leave the window to the per-day fallback below
+      (e) => isAbortError(e) || isOfflineError(e) || isApiError(e, 'auth', 'quota'),
+    );
+
+    // A symbol missing from every answered day isn't offered by this provider;
+    // asking day by day won't change that, so stop waiting for those pairs
+    if (seen.size > 1) {
+      required = pairs.filter((p) => seen.has(p.from) && seen.has(p.to));
+      for (const [date, day] of rates) if (complete(day)) known.add(date);
+    }
+    missing = days.filter((d) => !known.has(d));
+  }
+
+  // A multi-year gap would cost one request per day; leave it to a retry instead.
+  // Same when it would use more than half of what's left of the provider's request budget.
+  const budget = provider.remainingCalls?.();
+  if (missing.length > MAX_PER_DAY_FALLBACK || (budget !== undefined && missing.length > budget / 2)) {
+    perDay = false;
+  }
+
+  if (missing.length && perDay && provider.historical) {
+    const historical = provider.historical.bind(provider);
+    const resolved = days.length - missing.length;
+    let fetched = 0;
+
+    // Fallback call /historical for each missing day, a few at a time
+    await runPool(
+      missing,
+      // how many /historical requests may be in flight
+      getConfig().historicalConcurrency,
+      async (day) => {
+        try {
+          // Normalize into a { CODE: number } map
+          const dayRates = await historical({ base, date: day, symbols }, opts);
+          void saveDays(base, { [day]: dayRates });
+          add(day, dayRates);
+        } finally {
+          // failed days still count as done for progress; they are retried next time
+          fetched++;
+          onProgress?.({ loaded: resolved + fetched, total: days.length });
+        }
+      },
+      (e) => isAbortError(e) || isApiError(e, 'auth', 'quota'),
+    );
+  }
+
+  // Chronological series per pair
+  const results = pairs.map((p) => {
+    const series: TimeseriesPoint[] = [];
+    for (const d of days) {
+      // Resolve each side relative to the pivot (1 by definition for the pivot itself)
+      const rate = crossRate(rates.get(d) ?? {}, p.from, p.to, base);
+      if (rate !== undefined) series.push({ date: d, rate });
+    }
+    return series;
+  });
+
+  if (results.every((series) => !series.length)) {
+    const names = pairs.map((p) => `${p.from}/${p.to}`).join(', ');
+    throw new ApiError('not-found', `${provider.label} has no historical data for ${names}.`);
+  }
+  return results;
+}
+
+/**
+ * Builds FROM - TO series from saved daily snapshots against base
+ *
+ * @returns Sorted points per pair, for the days that have both sides saved
+ */
+async function timeseriesFromSnapshots(
+  pairs: CurrencyPair[],
+  startISO: string,
+  endISO: string,
+  base: string,
+): Promise<TimeseriesPoint[][]> {
+  const snaps = await savedDays(base, startISO, endISO);
+  return pairs.map((p) => {
+    const series: TimeseriesPoint[] = [];
+    for (const snap of snaps) {
+      const rate = crossRate(snap.rates, p.from, p.to, base);
+      if (rate !== undefined) series.push({ date: snap.date, rate });
+    }
+    return series.sort((a, b) => a.date.localeCompare(b.date));
+  });
+}
+
 /**
- * Fetches a daily time series for the cross-rate 1 FROM - TO
+ * Fetches a daily time series for the cross-rate 1 FROM - TO,
+ * trying each provider in the failover chain until one has data
+ *
+ * Fiat pairs pivot through USD. Crypto rarely has a full USD-based history,
+ * so a pair with a crypto side is first requested with that coin as the base
+ * (one timeseries call), then through the USD pivot as usual.
+ *
+ * Without a network, whatever days were saved from earlier answers are returned.
  *
  * @param params
  *   - from:  source currency code 
  *   - to:    target currency code 
  *   - start: inclusive start date "YYYY-MM-DD"
  *   - end:   inclusive end date "YYYY-MM-DD"
+ *   - signal: optional AbortSignal; aborting rejects with an AbortError
+ *   - onProgress: optional callback with { loaded, total } days, for loading indicators
+ *   - onSource: optional callback with the id of the provider that answered ("snapshot" offline)
  *
  * @returns Promise of sorted { date: "YYYY-MM-DD", rate: number }[]
+ *
+ * @throws ApiError - the most relevant failure when no source has data (an invalid key
+ *   before a fallback's "not found"); network when offline with nothing saved
  */
 export async function getTimeseries(params: {
   from: string;
   to: string;
   start: string; 
   end: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: TimeseriesProgress) => void;
+  onSource?: (source: string) => void;
 }): Promise<TimeseriesPoint[]> {
   const from = params.from.trim().toUpperCase();
   const to = params.to.trim().toUpperCase();
 
-  // single /timeseries request (USD base) 
-  try {
-    const json = await get('timeseries', {
-      base: 'USD',
-      start_date: params.start,
-      end_date: params.end,
-      symbols: `${from},${to}`,
-    });
+  const coin = isCrypto(from) ? from : isCrypto(to) ? to : undefined;
 
-    // daily rates
-    const buckets =
-      json?.rates ?? json?.data?.rates ?? json?.response?.rates ?? {};
-
-    // chronological order
-    const dates = Object.keys(buckets).sort();
+  const bases = coin && coin !== 'USD' ? [coin, 'USD'] : ['USD'];
+  const request = {
+    pairs: [{ from, to }],
+    start: params.start,
+    end: params.end,
+    signal: params.signal,
+    onProgress: params.onProgress,
+  };
 
-    const series: TimeseriesPoint[] = [];
-    for (const d of dates) {
-      const day = buckets[d] || {};
-      // Resolve each side relative to USD (1 by definition when base=USD)
-      const rFrom = from === 'USD' ? 1 : day[from];
-      const rTo   = to   === 'USD' ? 1 : day[to];
-      if (typeof rFrom === 'number' && typeof rTo === 'number') {
-        series.push({ date: d, rate: rTo / rFrom });
+  try {
+    const series = await withFailover(async (provider) => {
+      if (bases.length > 1) {
+        try {
+          const [direct] = await timeseriesFrom(provider, { ...request, base: bases[0], perDay: false });
+          if (direct.length) {
+            params.onSource?.(provider.id);
+            return direct;
+          }
+        } catch (e) {
+          if (isAbortError(e) || isOfflineError(e)) throw e;
+          // try the USD pivot below
+        }
+      }
+      const [series] = await timeseriesFrom(provider, { ...request, base: 'USD', perDay: true });
+      params.onSource?.(provider.id);
+      return series;
+    });
+    markOnline();
+    return series;
+  } catch (e) {
+    if (isAbortError(e) || !isOfflineError(e)) throw e;
+
+    // Offline: chart whatever days were saved, under the first pivot that has any
+    for (const base of bases) {
+      const [saved] = await timeseriesFromSnapshots([{ from, to }], params.start, params.end, base);
+      if (saved.length) {
+        params.onSource?.('snapshot');
+        markOffline(saved[saved.length - 1].date);
+        return saved;
       }
     }
-
-    if (series.length) return series;
-    // If empty/unsupported, fall through to the per-day fallback
-  } catch {
-    // error, try fallback below
+    throw e;
   }
+}
 
-  // Fallback call /historical for each day
-  const start = new Date(params.start);
-  const end = new Date(params.end);
-
-  // Build the list of YYYY-MM-DD strings for each day in the range (inclusive)
-  const days: string[] = [];
-  for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-    days.push(d.toISOString().slice(0, 10));
-  }
+/**
+ * Fetches daily time series for several pairs at once, e.g. EUR, GBP and JPY
+ * against USD over a quarter. All pairs pivot through USD and share the same
+ * timeseries request (one symbols list), so adding pairs doesn't add calls.
+ *
+ * @param params
+ *   - pairs: { from, to } codes; duplicates are fetched once
+ *   - start: inclusive start date "YYYY-MM-DD"
+ *   - end:   inclusive end date "YYYY-MM-DD"
+ *   - days:  optional specific days within start..end, e.g. transaction dates; days close
+ *            together still share one timeseries request, isolated ones cost one /historical each
+ *   - signal: optional AbortSignal; aborting rejects with an AbortError
+ *   - onProgress: optional callback with { loaded, total } days
+ *
+ * @returns Promise of one sorted series per pair, in the order given (empty where no source has data)
+ *
+ * @throws ApiError - when no pair has data anywhere; network when offline with nothing saved
+ */
+export async function getMultiTimeseries(params: {
+  pairs: CurrencyPair[];
+  start: string;
+  end: string;
+  days?: string[];
+  signal?: AbortSignal;
+  onProgress?: (progress: TimeseriesProgress) => void;
+}): Promise<TimeseriesPoint[][]> {
+  const pairs = params.pairs.map((p) => ({
+    from: p.from.trim().toUpperCase(),
+    to: p.to.trim().toUpperCase(),
+  }));
+  if (!pairs.length) return [];
 
-  const results: TimeseriesPoint[] = [];
-  for (const day of days) {
-    try {
-      const json = await get('historical', {
+  try {
+    const series = await withFailover((provider) =>
+      timeseriesFrom(provider, {
+        pairs,
+        start: params.start,
+        end: params.end,
+        days: params.days && [...new Set(params.days)].sort(),
         base: 'USD',
-        date: day,
-        symbols: `${from},${to}`,
-      });
-
-      // Normalize into a { CODE: number } map
-      const rates = parseRates(json);
-
-      const rFrom = from === 'USD' ? 1 : rates[from];
-      const rTo   = to   === 'USD' ? 1 : rates[to];
-
-      if (typeof rFrom === 'number' && typeof rTo === 'number') {
-        results.push({ date: day, rate: rTo / rFrom });
-      }
-    } catch {
-      // skip day on error
-    }
+        perDay: true,
+        signal: params.signal,
+        onProgress: params.onProgress,
+      }),
+    );
+    markOnline();
+    return series;
+  } catch (e) {
+    if (isAbortError(e) || !isOfflineError(e)) throw e;
+
+    // Offline: chart whatever days were saved
+    const wanted = params.days && new Set(params.days);
+    const saved = (await timeseriesFromSnapshots(pairs, params.start, params.end, 'USD')).map(
+      (series) => (wanted ? series.filter((p) => wanted.has(p.date)) : series),
+    );
+    const last = saved.flat().reduce((max, p) => (p.date > max ? p.date : max), '');
+    if (!last) throw e;
+    markOffline(last);
+    return saved;
   }
-
-  // Ensure chronological order and return
-  return results.sort((a, b) => a.date.localeCompare(b.date));
 }
 
-const api = { getCurrencies, convertOnce, getTimeseries };
-export default api;
\ No newline at end of file
+const api = {
+  getCurrencies,
+  mergeCurrencies,
+  isCrypto,
+  convertOnce,
+  convertAt,
+  convertMany,
+  getTimeseries,
+  getMultiTimeseries,
+  latestPairRates,
+  getLatestRates,
+};
+export default api;
@@ -0,0 +1,304 @@
+/**
+ * Batch conversion of expense-report style CSV files: every row converted
+ * into one reporting currency at the rate of its own transaction date.
+ */
+import { getMultiTimeseries, type CurrencyPair, type TimeseriesProgress } from './api';
+import { isApiError } from './errors';
+import { parseAmount } from './amount';
+import { toCSV } from './export';
+import { roundAmount } from './format';
+import { div, mul, rational, toNumber, type Rational } from './money';
+
+/** How day/month/year are ordered in dates that aren't ISO ("03/04/2024") */
+export type DateOrder = 'dmy' | 'mdy';
+
+/** Which column holds what (0-based indexes) */
+export type ColumnMapping = {
+  date: number;
+  amount: number;
+  currency: number;
+  /** skip the first row */
+  hasHeader: boolean;
+  dateOrder: DateOrder;
+};
+
+/** One input row after reading its mapped cells */
+export type BatchRow = {
+  /** 1-based row in the file, header included and blank lines skipped */
+  line: number;
+  cells: string[];
+  date?: string;
+  amount?: number;
+  currency?: string;
+  error?: string;
+};
+
+/** A row after conversion */
+export type BatchResult = BatchRow & {
+  /** 1 currency = rate target */
+  rate?: number;
+  /** day the rate is from; earlier than date when that day had no fixing (weekend, holiday) */
+  rateDate?: string;
+  converted?: Rational;
+};
+
+/** Closed days (weekends, holidays) use the last rate up to this many days earlier */
+export const MAX_LOOKBACK_DAYS = 4;
+
+const ONE_DAY = 86_400_000;
+
+/**
+ * Reads CSV text (RFC 4180 quoting); the delimiter is detected from the
+ * first line: ",", ";" or tab
+ *
+ * @returns Rows of cells; blank lines are dropped
+ */
+export function parseCSV(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && !cell) {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+/**
+ * Guesses the mapping from header names like "Date", "Amount", "Currency"
+ *
+ * @param rows - parsed CSV rows
+ */
+export function guessMapping(rows: string[][]): ColumnMapping {
+  const header = (rows[0] ?? []).map((h) => h.trim().toLowerCase());
+  const find = (re: RegExp, fallback: number) => {
+    const i = header.findIndex((h) => re.test(h));
+    return i === -1 ? fallback : i;
+  };
+  const date = find(/date|day|datum|fecha/, 0);
+  const amount = find(/amount|total|sum|value|betrag|importe/, 1);
+  const currency = find(/curr|ccy|iso|währung|moneda/, 2);
+
+  // A header is there when the date column doesn't start with a digit
+  const hasHeader = !!rows[0] && !/^\s*\d/.test(rows[0][date] ?? '');
+
+  // "13/04/2024" can only be day first
+  const sample = rows.slice(hasHeader ? 1 : 0).map((r) => r[date] ?? '');
+  const dayFirst = sample.some((d) => {
+    const m = /^\s*(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}/.exec(d);
+    return m && Number(m[1]) > 12;
+  });
+  const dotted = sample.some((d) => /^\s*\d{1,2}\.\d{1,2}\.\d{2,4}/.test(d));
+
+  return { date, amount, currency, hasHeader, dateOrder: dayFirst || dotted ? 'dmy' : 'mdy' };
+}
+
+/**
+ * Reads a date cell as "YYYY-MM-DD"
+ *
+ * Accepts ISO ("2024-04-03", also with a time after it), "2024/04/03" and
+ * day/month forms with "/", "." or "-" ordered by order; two-digit years are 20xx.
+ *
+ * @returns The ISO day, or undefined when the cell isn't a valid date
+ */
+export function parseDate(text: string, order: DateOrder): string | undefined {
+  const s = text.trim();
+  let y: number, m: number, d: number;
+
+  const iso = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:$|[T\s])/.exec(s);
+  const local = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(s);
+  if (iso) {
+    [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    const [a, b] = [Number(local[1]), Number(local[2])];
+    [d, m] = order === 'dmy' ? [a, b] : [b, a];
+    y = Number(local[3]) + (local[3].length === 2 ? 2000 : 0);
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(y, m - 1, d));
+  // Date rolls 31/02 over into March; a real date survives the round trip
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads every row with the given mapping; rows that can't be read carry an error
+ *
+ * @param rows    - parsed CSV rows, header included
+ * @param mapping - column mapping
+ * @param today   - "YYYY-MM-DD"; later dates have no rate yet
+ */
+export function readRows(rows: string[][], mapping: ColumnMapping, today: string): BatchRow[] {
+  const start = mapping.hasHeader ? 1 : 0;
+  return rows.slice(start).map((cells, i) => {
+    const row: BatchRow = { line: start + i + 1, cells };
+    const dateCell = cells[mapping.date] ?? '';
+    const amountCell = cells[mapping.amount] ?? '';
+    const currency = (cells[mapping.currency] ?? '').trim().toUpperCase();
+
+    const date = parseDate(dateCell, mapping.dateOrder);
+    const amount = parseAmount(amountCell);
+
+    if (!date) row.error = dateCell.trim() ? `"${dateCell.trim()}" isn't a date.` : 'No date.';
+    else if (date > today) row.error = `${date} is in the future.`;
+    else if (!amountCell.trim()) row.error = 'No amount.';
+    else if (!amount.ok) row.error = amount.error;
+    else if (!/^[A-Z0-9]{2,10}$/.test(currency)) {
+      row.error = currency ? `"${currency}" isn't a currency code.` : 'No currency.';
+    }
+
+    if (date) row.date = date;
+    if (amount.ok) row.amount = amount.value;
+    if (currency) row.currency = currency;
+    return row;
+  });
+}
+
+/** The MAX_LOOKBACK_DAYS days before day, most recent first */
+function daysBefore(day: string): string[] {
+  const t = Date.parse(day);
+  return Array.from({ length: MAX_LOOKBACK_DAYS }, (_, i) =>
+    new Date(t - (i + 1) * ONE_DAY).toISOString().slice(0, 10),
+  );
+}
+
+/**
+ * Converts every readable row into target at its date's rate
+ *
+ * Rows are grouped by currency and date: all currencies go into one request
+ * per day (nearby days share a timeseries request, isolated ones use
+ * /historical), however many rows fall on it. Days without a fixing are looked
+ * up again with the days before them, which are usually saved already.
+ *
+ * Each currency is fetched as USD - code, which is the provider's own decimal,
+ * and the cross-rate built from two of them exactly, so results carry no
+ * floating-point error.
+ *
+ * @param rows   - rows from readRows; rows with an error are passed through
+ * @param target - reporting currency
+ * @param opts
+ *   - signal:     cancels the lookups
+ *   - onProgress: { loaded, total } days, for the first pass
+ *
+ * @returns One result per row, in input order
+ */
+export async function convertRows(
+  rows: BatchRow[],
+  target: string,
+  opts: { signal?: AbortSignal; onProgress?: (progress: TimeseriesProgress) => void } = {},
+): Promise<BatchResult[]> {
+  const pending = rows.filter((r) => !r.error && r.currency !== target);
+  // every currency that needs a USD rate, the target included; USD itself is 1
+  const codes = pending.length
+    ? [...new Set([...pending.map((r) => r.currency!), target])].filter((c) => c !== 'USD')
+    : [];
+  const pairs: CurrencyPair[] = codes.map((to) => ({ from: 'USD', to }));
+
+  // code -> date -> exact USD rate
+  const rates = new Map<string, Map<string, Rational>>(codes.map((c) => [c, new Map()]));
+  const lookup = async (days: string[], onProgress?: typeof opts.onProgress) => {
+    if (!pairs.length || !days.length) return;
+    const sorted = [...new Set(days)].sort();
+    const series = await getMultiTimeseries({
+      pairs,
+      start: sorted[0],
+      end: sorted[sorted.length - 1],
+      days: sorted,
+      signal: opts.signal,
+      onProgress,
+    }).catch((e: unknown) => {
+      // no source has these days: each affected row says so below
+      if (isApiError(e, 'not-found')) return [];
+      throw e;
+    });
+    series.forEach((points, i) =>
+      points.forEach((p) => rates.get(codes[i])!.set(p.date, rational(p.rate))),
+    );
+  };
+
+  const days = [...new Set(pending.map((r) => r.date!))];
+  await lookup(days, opts.onProgress);
+
+  // Weekends and holidays: fetch the days before the ones that came back empty
+  const closed = days.filter((d) => codes.some((c) => !rates.get(c)!.has(d)));
+  await lookup(closed.flatMap(daysBefore));
+
+  return rows.map((row) => {
+    if (row.error) return row;
+    if (row.currency === target) {
+      return { ...row, rate: 1, rateDate: row.date, converted: rational(row.amount!) };
+    }
+
+    // both sides from the same fixing
+    const usdRate = (code: string, day: string) => (code === 'USD' ? rational(1) : rates.get(code)!.get(day));
+    const rateDate = [row.date!, ...daysBefore(row.date!)].find(
+      (d) => usdRate(row.currency!, d) && usdRate(target, d),
+    );
+    if (!rateDate) {
+      return { ...row, error: `No ${row.currency}/${target} rate for ${row.date}.` };
+    }
+    const rate = div(usdRate(target, rateDate)!, usdRate(row.currency!, rateDate)!);
+    return { ...row, rate: toNumber(rate), rateDate, converted: mul(rational(row.amount!), rate) };
+  });
+}
+
+/**
+ * Results as CSV: the original columns, then rate, rate date, the converted
+ * amount (rounded as displayed) and the error, if any
+ *
+ * @param header - original header row, when the file had one
+ * @param results - rows from convertRows
+ * @param target - reporting currency
+ */
+export function batchToCSV(header: string[] | undefined, results: BatchResult[], target: string): string {
+  const width = Math.max(header?.length ?? 0, ...results.map((r) => r.cells.length));
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill('')];
+  const original = header ? pad(header) : Array.from({ length: width }, (_, i) => `column_${i + 1}`);
+
+  return toCSV([
+    [...original, 'rate', 'rate_date', `converted_${target}`, 'error'],
+    ...results.map((r) => [
+      ...pad(r.cells),
+      r.rate ?? '',
+      r.rateDate ?? '',
+      r.converted ? roundAmount(r.converted, target) : '',
+      r.error ?? '',
+    ]),
+  ]);
+}
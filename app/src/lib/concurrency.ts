@@ -0,0 +1,39 @@
+/**
+ * Runs task over items with at most limit tasks in flight at once.
+ * Results keep the order of items; a failed task leaves its slot undefined
+ * unless the error is fatal, which stops the pool and is rethrown.
+ *
+ * @param items   - inputs, e.g. days to fetch
+ * @param limit   - maximum concurrent tasks (at least 1)
+ * @param task    - async work for one item
+ * @param isFatal - errors that should stop everything (e.g. an abort)
+ *
+ * @returns Promise resolving to each task's result, or undefined where it failed
+ */
+export async function runPool<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  isFatal: (err: unknown) => boolean = () => false,
+): Promise<(R | undefined)[]> {
+  const results: (R | undefined)[] = new Array(items.length);
+  let next = 0;
+  let fatal: { err: unknown } | null = null;
+
+  const worker = async () => {
+    while (!fatal && next < items.length) {
+      const i = next++;
+      try {
+        results[i] = await task(items[i], i);
+      } catch (err) {
+        if (isFatal(err)) fatal = { err };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (fatal) throw (fatal as { err: unknown }).err;
+  return results;
+}
@@ -0,0 +1,79 @@
+/**
+ * Settings of the API layer, read once from the environment: Vite's
+ * import.meta.env in the browser, process.env for the command-line tool.
+ * Nothing below lib/ reads the environment itself, so the same code runs in
+ * both places.
+ */
+
+export type AppConfig = {
+  /** CurrencyBeacon API root, without a trailing slash needed */
+  currencyBeaconBase: string;
+  currencyBeaconApiKey?: string;
+  /** CurrencyBeacon requests that may start per second after a burst */
+  currencyBeaconRateLimit: number;
+  /** the key's request budgets; undefined for none */
+  dailyBudget?: number;
+  monthlyBudget?: number;
+  frankfurterBase: string;
+  /** failover order, comma-separated provider ids */
+  rateProviders: string;
+  /** per-day /historical requests the chart may run at once */
+  historicalConcurrency: number;
+  /** time between rate alert checks, in ms */
+  alertPollMs: number;
+};
+
+export type Env = Record<string, string | boolean | undefined>;
+
+export const DEFAULT_CURRENCYBEACON_BASE = 'https://api.currencybeacon.com/v1';
+
+const text = (value: Env[string]) => (typeof value === 'string' && value.trim()) || undefined;
+const positive = (value: Env[string]) => Number(text(value)) || undefined;
+
+/**
+ * Config from VITE_* variables; unset, empty or invalid values get the defaults
+ *
+ * @param env - import.meta.env, process.env or any map of the same names
+ */
+export function readConfig(env: Env): AppConfig {
+  return {
+    currencyBeaconBase: text(env.VITE_CURRENCYBEACON_BASE) ?? DEFAULT_CURRENCYBEACON_BASE,
+    currencyBeaconApiKey: text(env.VITE_CURRENCYBEACON_API_KEY),
+    currencyBeaconRateLimit: positive(env.VITE_CURRENCYBEACON_RATE_LIMIT) ?? 5,
+    dailyBudget: positive(env.VITE_CURRENCYBEACON_DAILY_BUDGET),
+    monthlyBudget: positive(env.VITE_CURRENCYBEACON_MONTHLY_BUDGET),
+    frankfurterBase: text(env.VITE_FRANKFURTER_BASE) ?? 'https://api.frankfurter.app',
+    rateProviders: text(env.VITE_RATE_PROVIDERS) ?? 'currencybeacon,frankfurter',
+    historicalConcurrency: positive(env.VITE_HISTORICAL_CONCURRENCY) ?? 4,
+    alertPollMs: positive(env.VITE_ALERT_POLL_MS) ?? 5 * 60_000,
+  };
+}
+
+// import.meta.env only exists when the code went through Vite
+let config: AppConfig = readConfig(import.meta.env ?? {});
+
+/** Current settings */
+export function getConfig(): AppConfig {
+  return config;
+}
+
+/**
+ * Overrides settings, e.g. from process.env in the CLI. Call before the
+ * first request: the CurrencyBeacon rate limiter is sized on first use.
+ *
+ * @param overrides - settings to change; the rest are kept
+ */
+export function configure(overrides: Partial<AppConfig>): void {
+  config = { ...config, ...overrides };
+}
+
+/**
+ * Whether requests go straight to CurrencyBeacon without an API key. Behind
+ * a proxy set through VITE_CURRENCYBEACON_BASE (see server/) none is needed:
+ * the proxy adds it on its side.
+ *
+ * @param config - settings to check, defaults to the current ones
+ */
+export function apiKeyMissing(config: AppConfig = getConfig()): boolean {
+  return !config.currencyBeaconApiKey && config.currencyBeaconBase === DEFAULT_CURRENCYBEACON_BASE;
+}
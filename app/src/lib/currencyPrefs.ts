@@ -0,0 +1,81 @@
+import { storage } from './storage';
+
+/**
+ * Favorite and recently used currency codes, shared by every currency picker
+ * and kept in storage() (localStorage in the browser). Read in components
+ * through useCurrencyPrefs.
+ */
+
+export type CurrencyPrefs = {
+  /** pinned codes, in the order they were added */
+  favorites: string[];
+  /** most recently picked first */
+  recents: string[];
+};
+
+const FAVORITES_KEY = 'cb_favorites_v1';
+const RECENTS_KEY = 'cb_recents_v1';
+
+/** Recently used list length */
+export const MAX_RECENTS = 5;
+
+function load(key: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(storage().getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === 'string') : [];
+  } catch {
+    // unreadable or storage blocked - start fresh
+    return [];
+  }
+}
+
+function save(key: string, codes: string[]) {
+  try {
+    storage().setItem(key, JSON.stringify(codes));
+  } catch {
+    // quota exceeded or storage blocked - keep the in-memory value
+  }
+}
+
+// loaded on first read, so a store set up at startup is the one used
+let state: CurrencyPrefs | undefined;
+const listeners = new Set<() => void>();
+
+function set(next: CurrencyPrefs) {
+  const prev = getCurrencyPrefs();
+  if (next.favorites !== prev.favorites) save(FAVORITES_KEY, next.favorites);
+  if (next.recents !== prev.recents) save(RECENTS_KEY, next.recents);
+  state = next;
+  listeners.forEach((l) => l());
+}
+
+/** Current prefs; stable between changes, as useSyncExternalStore expects */
+export function getCurrencyPrefs(): CurrencyPrefs {
+  state ??= { favorites: load(FAVORITES_KEY), recents: load(RECENTS_KEY) };
+  return state;
+}
+
+/** Registers a change listener; returns the unsubscribe function */
+export function subscribeCurrencyPrefs(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Pins code to the favorites, or unpins it when already there */
+export function toggleFavorite(code: string): void {
+  const prefs = getCurrencyPrefs();
+  const favorites = prefs.favorites.includes(code)
+    ? prefs.favorites.filter((c) => c !== code)
+    : [...prefs.favorites, code];
+  set({ ...prefs, favorites });
+}
+
+/** Moves code to the front of the recently used list */
+export function markRecent(code: string): void {
+  const prefs = getCurrencyPrefs();
+  if (prefs.recents[0] === code) return;
+  const recents = [code, ...prefs.recents.filter((c) => c !== code)].slice(0, MAX_RECENTS);
+  set({ ...prefs, recents });
+}
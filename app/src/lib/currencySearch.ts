@@ -0,0 +1,39 @@
+import type { Currency } from './api';
+
+/**
+ * How well a currency matches a typed query; lower is better, null is no match.
+ * Codes beat symbols, which beat names, so "chf" puts the franc first and "$"
+ * lists the dollars.
+ */
+function score(c: Currency, q: string): number | null {
+  const code = c.code.toLowerCase();
+  const name = c.name.toLowerCase();
+  const symbol = c.symbol?.toLowerCase();
+
+  if (code === q) return 0;
+  if (code.startsWith(q)) return 1;
+  if (symbol && symbol === q) return 2;
+  if (name.split(/[\s-]+/).some((word) => word.startsWith(q))) return 3;
+  if (symbol && symbol.startsWith(q)) return 4;
+  if (name.includes(q)) return 5;
+  return null;
+}
+
+/**
+ * Type-ahead search over code, name and symbol
+ *
+ * @param options - currencies to search
+ * @param query   - what the user typed; blank returns nothing
+ *
+ * @returns Matches, best first; ties keep the name order
+ */
+export function searchCurrencies(options: Currency[], query: string): Currency[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  return options
+    .map((c) => ({ c, s: score(c, q) }))
+    .filter((m): m is { c: Currency; s: number } => m.s !== null)
+    .sort((a, b) => a.s - b.s || a.c.name.localeCompare(b.c.name))
+    .map((m) => m.c);
+}
@@ -0,0 +1,90 @@
+import type { TimeseriesPoint } from './api';
+
+/**
+ * Aggregates daily rates into daily/weekly/monthly OHLC points so long
+ * ranges stay readable (and cheap to render) on the chart.
+ */
+
+export type Interval = 'day' | 'week' | 'month';
+
+/** One bucket of the series; rate is the close so line views keep working */
+export type Candle = {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  rate: number;
+};
+
+// Above this many daily points, switch to weekly; above the weekly limit, monthly
+const MAX_DAILY_POINTS = 400;
+const MAX_WEEKLY_POINTS = 260;
+
+/**
+ * Picks the finest interval that keeps the chart under a few hundred points
+ *
+ * @param length - number of daily points in the series
+ */
+export function autoInterval(length: number): Interval {
+  if (length <= MAX_DAILY_POINTS) return 'day';
+  if (length / 7 <= MAX_WEEKLY_POINTS) return 'week';
+  return 'month';
+}
+
+/**
+ * Start day of the bucket a date falls in: itself, its Monday, or the 1st
+ *
+ * @param date     - "YYYY-MM-DD"
+ * @param interval - bucket size
+ */
+function bucketOf(date: string, interval: Interval): string {
+  if (interval === 'day') return date;
+  if (interval === 'month') return `${date.slice(0, 7)}-01`;
+
+  const d = new Date(`${date}T00:00:00Z`);
+  const sinceMonday = (d.getUTCDay() + 6) % 7;
+  d.setUTCDate(d.getUTCDate() - sinceMonday);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Aggregates a daily series into OHLC buckets.
+ *
+ * Providers only publish one rate per day, so each bucket opens at the
+ * previous bucket's close (the first at its own first rate). That also gives
+ * daily candles a real body instead of a flat line.
+ *
+ * @param series   - points as returned by getTimeseries, oldest first
+ * @param interval - bucket size
+ *
+ * @returns One candle per bucket, keyed by the bucket's start day, oldest first
+ */
+export function aggregate(series: TimeseriesPoint[], interval: Interval): Candle[] {
+  const out: Candle[] = [];
+  let current: Candle | undefined;
+  let currentKey = '';
+
+  for (const p of series) {
+    const key = bucketOf(p.date, interval);
+    if (!current || key !== currentKey) {
+      const open = current ? current.close : p.rate;
+      current = {
+        date: key,
+        open,
+        high: Math.max(open, p.rate),
+        low: Math.min(open, p.rate),
+        close: p.rate,
+        rate: p.rate,
+      };
+      currentKey = key;
+      out.push(current);
+      continue;
+    }
+    current.high = Math.max(current.high, p.rate);
+    current.low = Math.min(current.low, p.rate);
+    current.close = p.rate;
+    current.rate = p.rate;
+  }
+  return out;
+}
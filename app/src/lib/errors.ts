@@ -0,0 +1,100 @@
+/**
+ * Typed failures of the rate API layer, so the UI can tell an invalid key
+ * from a spent quota or a dropped connection and say what to do about each.
+ */
+
+/**
+ * - auth:      key missing, invalid or not allowed this endpoint (HTTP 401/403)
+ * - quota:     request limit or plan quota reached (HTTP 402/429)
+ * - network:   no answer at all: offline, DNS, CORS, connection reset
+ * - not-found: the source has no data for these currencies or dates (HTTP 404/422)
+ * - malformed: an answer arrived but doesn't have the expected shape
+ * - server:    any other failed status, usually 5xx
+ */
+export type ApiErrorKind = 'auth' | 'quota' | 'network' | 'not-found' | 'malformed' | 'server';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status, when the failure came with one */
+  readonly status?: number;
+  /** call that failed, e.g. "convert" or "frankfurter latest" */
+  readonly endpoint?: string;
+  /** how long the server asked us to wait (Retry-After), in ms */
+  readonly retryAfter?: number;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    opts: { status?: number; endpoint?: string; retryAfter?: number; cause?: unknown } = {},
+  ) {
+    super(message, { cause: opts.cause });
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = opts.status;
+    this.endpoint = opts.endpoint;
+    this.retryAfter = opts.retryAfter;
+  }
+}
+
+/**
+ * Whether err is an ApiError, optionally of one of the given kinds
+ *
+ * @param err   - anything thrown
+ * @param kinds - kinds to accept; any kind when omitted
+ */
+export function isApiError(err: unknown, ...kinds: ApiErrorKind[]): err is ApiError {
+  return err instanceof ApiError && (!kinds.length || kinds.includes(err.kind));
+}
+
+/**
+ * Error kind for a failed HTTP status
+ *
+ * @param status - response status code
+ */
+export function kindForStatus(status: number): ApiErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402 || status === 429) return 'quota';
+  if (status === 404 || status === 422) return 'not-found';
+  return 'server';
+}
+
+// When several sources fail, the error the user can act on wins
+const PRIORITY: ApiErrorKind[] = ['auth', 'quota', 'network', 'malformed', 'server', 'not-found'];
+
+/**
+ * The most useful of several failures, e.g. an invalid key at the primary
+ * source rather than the fallback's "no crypto rates"
+ *
+ * @param errors - failures in the order they happened; untyped errors rank last
+ */
+export function mostRelevant(errors: unknown[]): unknown {
+  const rank = (e: unknown) => (e instanceof ApiError ? PRIORITY.indexOf(e.kind) : PRIORITY.length);
+  return errors.reduce((best, e) => (rank(e) < rank(best) ? e : best), errors[errors.length - 1]);
+}
+
+/**
+ * Message for the user: what went wrong and what to do about it
+ *
+ * @param err      - anything thrown by the API layer
+ * @param fallback - message for errors that aren't ApiErrors and have no message
+ */
+export function errorMessage(err: unknown, fallback: string): string {
+  if (!(err instanceof ApiError)) return err instanceof Error && err.message ? err.message : fallback;
+
+  switch (err.kind) {
+    case 'auth':
+      return 'The rate service rejected the API key. Check VITE_CURRENCYBEACON_API_KEY in app/.env and restart the dev server.';
+    case 'quota':
+      return err.retryAfter
+        ? `Too many requests to the rate service. Try again in ${Math.ceil(err.retryAfter / 1000)} s.`
+        : 'The API request limit is used up. Wait a few minutes (or until the quota resets), or upgrade the API plan.';
+    case 'network':
+      return 'Can’t reach the rate service. Check your connection; saved rates are shown where available.';
+    case 'not-found':
+      return `${err.message} Try another currency pair or date range.`;
+    case 'malformed':
+      return `The rate service sent an unexpected answer (${err.message}). Try again later; if it keeps happening, the API may have changed.`;
+    case 'server':
+      return `The rate service had a problem${err.status ? ` (HTTP ${err.status})` : ''}. Try again in a few minutes.`;
+  }
+}
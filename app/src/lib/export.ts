@@ -0,0 +1,191 @@
+import type { ConvertResponse, TimeseriesPoint } from './api';
+import { getRoundingMode, roundAmount } from './format';
+
+/** Where a set of numbers came from, written alongside them in every export */
+export type ExportMeta = {
+  from: string;
+  to: string;
+  /** provider id that answered, e.g. "currencybeacon" ("snapshot" when offline) */
+  source?: string;
+  /** ISO timestamp of when the data was fetched */
+  fetchedAt: string;
+};
+
+/** Quotes a CSV cell when it holds a separator, quote or line break (RFC 4180) */
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialises rows into CSV text; the first row is the header
+ *
+ * @param rows - cells per row; undefined/null become empty cells
+ */
+export function toCSV(rows: unknown[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Time series as CSV, one row per day with the pair, source and fetch time
+ * repeated so each row still makes sense once pasted elsewhere
+ */
+export function seriesToCSV(points: TimeseriesPoint[], meta: ExportMeta): string {
+  return toCSV([
+    ['date', 'from', 'to', 'rate', 'source', 'fetched_at'],
+    ...points.map((p) => [p.date, meta.from, meta.to, p.rate, meta.source ?? '', meta.fetchedAt]),
+  ]);
+}
+
+/** Time series as JSON: the metadata once, then the points */
+export function seriesToJSON(points: TimeseriesPoint[], meta: ExportMeta): string {
+  return JSON.stringify({ ...meta, points }, null, 2);
+}
+
+/**
+ * Conversion result as one CSV row; meta (fallback pivot, offline date...) is
+ * kept as a JSON string in its own column so no detail is lost. The result is
+ * rounded to the target's minor unit exactly as displayed.
+ */
+export function conversionToCSV(amount: number, res: ConvertResponse, meta: ExportMeta): string {
+  return toCSV([
+    ['from', 'to', 'amount', 'result', 'rate', 'source', 'fetched_at', 'rounding', 'meta'],
+    [
+      meta.from,
+      meta.to,
+      amount,
+      roundAmount(res.exact?.result ?? res.result, meta.to),
+      res.rate ?? '',
+      res.provider ?? meta.source ?? '',
+      meta.fetchedAt,
+      getRoundingMode(),
+      res.meta ? JSON.stringify(res.meta) : '',
+    ],
+  ]);
+}
+
+/** Conversion result as JSON (result rounded as displayed), with the response meta exactly as returned */
+export function conversionToJSON(amount: number, res: ConvertResponse, meta: ExportMeta): string {
+  return JSON.stringify(
+    {
+      from: meta.from,
+      to: meta.to,
+      amount,
+      result: roundAmount(res.exact?.result ?? res.result, meta.to),
+      rate: res.rate ?? null,
+      source: res.provider ?? meta.source ?? null,
+      fetchedAt: meta.fetchedAt,
+      rounding: getRoundingMode(),
+      meta: res.meta ?? null,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * File name for an export, e.g. "USD-EUR_2024-01-01_2024-03-31.csv"
+ *
+ * @param parts - pieces joined with "_"; characters unsafe in file names become "-"
+ * @param ext   - extension without the dot
+ */
+export function exportFileName(parts: string[], ext: string): string {
+  return `${parts.map((p) => p.replace(/[^\w.-]+/g, '-')).join('_')}.${ext}`;
+}
+
+/** Saves a string or Blob through a temporary download link */
+export function downloadFile(name: string, content: string | Blob, type = 'text/plain'): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // give the browser a moment to start the download before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Standalone SVG markup for a chart rendered inside container: the first
+ * <svg> is cloned onto a white background with an optional title line above
+ *
+ * @returns SVG text, or null when the container holds no chart
+ */
+export function chartToSVG(container: HTMLElement, title?: string): string | null {
+  const svg = container.querySelector('svg');
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  const header = title ? 24 : 0;
+  const ns = 'http://www.w3.org/2000/svg';
+
+  const out = document.createElementNS(ns, 'svg');
+  out.setAttribute('xmlns', ns);
+  out.setAttribute('width', String(width));
+  out.setAttribute('height', String(height + header));
+  out.setAttribute('viewBox', `0 0 ${width} ${height + header}`);
+  // text styles normally come from the page's CSS, which a file doesn't carry
+  out.setAttribute('font-family', getComputedStyle(container).fontFamily || 'sans-serif');
+  out.setAttribute('font-size', '12');
+
+  const bg = document.createElementNS(ns, 'rect');
+  bg.setAttribute('width', '100%');
+  bg.setAttribute('height', '100%');
+  bg.setAttribute('fill', '#ffffff');
+  out.appendChild(bg);
+
+  if (title) {
+    const text = document.createElementNS(ns, 'text');
+    text.setAttribute('x', '8');
+    text.setAttribute('y', '16');
+    text.setAttribute('fill', '#374151');
+    text.textContent = title;
+    out.appendChild(text);
+  }
+
+  const chart = svg.cloneNode(true) as SVGSVGElement;
+  chart.setAttribute('x', '0');
+  chart.setAttribute('y', String(header));
+  chart.setAttribute('width', String(width));
+  chart.setAttribute('height', String(height));
+  out.appendChild(chart);
+
+  return new XMLSerializer().serializeToString(out);
+}
+
+/**
+ * Rasterises SVG markup to a PNG
+ *
+ * @param svgText - standalone SVG, e.g. from chartToSVG
+ * @param scale   - pixel ratio; 2 keeps text sharp when pasted into documents
+ */
+export async function svgToPNG(svgText: string, scale = 2): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('Could not render the chart image.'));
+      img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the chart image.'))),
+        'image/png',
+      ),
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,100 @@
+import { div, isZero, mul, rational, sub, toNumber, ONE, ZERO, type Rational } from './money';
+
+/**
+ * What a bank or card issuer charges on top of the mid-market rate, saved
+ * under a name like "Bank A wire" or "Card X"
+ */
+export type FeePreset = {
+  id: string;
+  name: string;
+  /** bank or card issuer the preset belongs to; presets are grouped by it */
+  provider: string;
+  /** markup over the mid-market rate in %, e.g. 2.5 */
+  spreadPct: number;
+  /** flat fee per transfer, 0 for none */
+  fixedFee: number;
+  /** fee charged in the source currency (taken before converting) or the target (taken after) */
+  feeIn: 'from' | 'to';
+};
+
+/** One preset applied to one conversion; all amounts are exact */
+export type FeeQuote = {
+  /** amount at the mid-market rate, in the target currency */
+  mid: Rational;
+  /** amount actually received after spread and fixed fee, never below 0 */
+  received: Rational;
+  /** received per unit sent; undefined when nothing is sent */
+  effectiveRate?: Rational;
+  /** mid - received, in the target currency */
+  cost: Rational;
+  /** cost as % of the mid-market amount */
+  costPct: number;
+};
+
+export const PRESETS_KEY = 'cb_fee_presets_v1';
+
+export const DEFAULT_PRESETS: FeePreset[] = [
+  { id: 'bank-wire', name: 'Bank wire', provider: 'Bank', spreadPct: 3, fixedFee: 15, feeIn: 'from' },
+  { id: 'card', name: 'Card payment', provider: 'Card', spreadPct: 1.75, fixedFee: 0, feeIn: 'from' },
+];
+
+export function isPresetList(v: unknown): v is FeePreset[] {
+  return (
+    Array.isArray(v) &&
+    v.every(
+      (p) =>
+        p &&
+        typeof p === 'object' &&
+        typeof p.id === 'string' &&
+        typeof p.name === 'string' &&
+        typeof p.provider === 'string' &&
+        typeof p.spreadPct === 'number' &&
+        typeof p.fixedFee === 'number' &&
+        (p.feeIn === 'from' || p.feeIn === 'to'),
+    )
+  );
+}
+
+const HUNDRED = rational(100);
+const atLeastZero = (a: Rational) => (a.n < 0n ? ZERO : a);
+
+/**
+ * Applies a preset to a conversion
+ *
+ * The spread lowers the rate to mid × (1 − spread %); a fee in the source
+ * currency is taken before converting, one in the target currency after.
+ *
+ * @param amount  - amount sent, in the source currency
+ * @param midRate - mid-market rate, 1 source = midRate target
+ * @param preset  - fees to apply
+ */
+export function applyFees(amount: Rational, midRate: Rational, preset: FeePreset): FeeQuote {
+  const mid = mul(amount, midRate);
+  const rate = mul(midRate, sub(ONE, div(rational(preset.spreadPct), HUNDRED)));
+  const fee = rational(preset.fixedFee);
+
+  const received = atLeastZero(
+    preset.feeIn === 'from'
+      ? mul(atLeastZero(sub(amount, fee)), rate)
+      : sub(mul(amount, rate), fee),
+  );
+  const cost = sub(mid, received);
+
+  return {
+    mid,
+    received,
+    effectiveRate: isZero(amount) ? undefined : div(received, amount),
+    cost,
+    costPct: isZero(mid) ? 0 : toNumber(mul(div(cost, mid), HUNDRED)),
+  };
+}
+
+/** Presets grouped by provider, in first-seen order */
+export function groupByProvider(presets: FeePreset[]): [string, FeePreset[]][] {
+  const groups = new Map<string, FeePreset[]>();
+  for (const p of presets) {
+    const key = p.provider.trim() || 'Other';
+    groups.set(key, [...(groups.get(key) ?? []), p]);
+  }
+  return [...groups];
+}
@@ -0,0 +1,156 @@
+import { currencySymbol, isCrypto } from './api';
+import { rational, toFixedString, type Rational, type RoundingMode } from './money';
+import { storage } from './storage';
+
+export type { RoundingMode };
+
+// Coins trade in tiny fractions (satoshi = 1e-8 BTC)
+const CRYPTO_DIGITS = 8;
+const FIAT_RATE_MIN_DIGITS = 4;
+const FIAT_RATE_DIGITS = 6;
+
+const ROUNDING_KEY = 'cb_rounding_v1';
+
+function loadRounding(): RoundingMode {
+  try {
+    return storage().getItem(ROUNDING_KEY) === 'half-even' ? 'half-even' : 'half-up';
+  } catch {
+    return 'half-up';
+  }
+}
+
+// How a value exactly halfway between two displayable amounts is rounded:
+// 'half-up' away from zero (2.345 → 2.35), 'half-even' to the even digit
+// (2.345 → 2.34, "banker's rounding"). Loaded on first read.
+let rounding: RoundingMode | undefined;
+const listeners = new Set<() => void>();
+
+/** Current rounding mode; read through useRoundingMode in components */
+export function getRoundingMode(): RoundingMode {
+  return (rounding ??= loadRounding());
+}
+
+/** Registers a change listener; returns the unsubscribe function */
+export function subscribeRoundingMode(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Switches the rounding mode for everything displayed and exported, and remembers it */
+export function setRoundingMode(mode: RoundingMode): void {
+  if (mode === getRoundingMode()) return;
+  rounding = mode;
+  try {
+    storage().setItem(ROUNDING_KEY, mode);
+  } catch {
+    // storage blocked - the choice lasts for this visit
+  }
+  listeners.forEach((l) => l());
+}
+
+/**
+ * Rounds to a number of decimals with the given tie rule - the one place
+ * where exact values from the API layer lose precision
+ *
+ * Numbers are taken at their shortest decimal form, so 1.005 counts as a tie
+ * rather than as the binary 1.00499999…
+ *
+ * @param value  - exact value, or a number
+ * @param digits - decimals to keep
+ * @param mode   - tie rule, defaults to the current rounding mode
+ */
+export function roundTo(
+  value: number | Rational,
+  digits: number,
+  mode: RoundingMode = getRoundingMode(),
+): number {
+  if (typeof value === 'number' && !Number.isFinite(value)) return value;
+  const exact = typeof value === 'number' ? rational(value) : value;
+  return Number(toFixedString(exact, digits, mode));
+}
+
+/**
+ * Decimals an amount in code is shown with: the ISO 4217 minor unit
+ * (JPY 0, EUR 2, KWD 3), or 8 for crypto
+ *
+ * @param code - currency code
+ */
+export function minorUnits(code: string): number {
+  if (isCrypto(code)) return CRYPTO_DIGITS;
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: code }).resolvedOptions()
+      .maximumFractionDigits ?? 2;
+  } catch {
+    // not an ISO code at all
+    return 2;
+  }
+}
+
+/**
+ * Rounds an amount to its currency's minor unit with the current rounding mode,
+ * as shown on screen; exports use this so files match the display
+ *
+ * @param value - amount
+ * @param code  - currency the amount is in
+ */
+export function roundAmount(value: number | Rational, code: string): number {
+  return roundTo(value, minorUnits(code));
+}
+
+/**
+ * Formats an amount in currency style for the user's locale, e.g. "¥12,345",
+ * "€1,234.56" or "KWD 1.235", rounded to the currency's minor unit
+ *
+ * ISO currencies use the locale's symbol; where the locale only knows the
+ * code, the symbol from the currency list is used instead. Crypto gets 8
+ * decimals and its symbol (or code) after the number.
+ *
+ * @param value - amount to format, exact or as a number
+ * @param code  - currency the amount is in
+ */
+export function formatAmount(value: number | Rational, code: string): string {
+  const digits = minorUnits(code);
+  const rounded = roundTo(value, digits);
+  const symbol = currencySymbol(code);
+
+  if (!isCrypto(code)) {
+    try {
+      const parts = new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency: code,
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).formatToParts(rounded);
+      return parts
+        .map((p) => (p.type === 'currency' && p.value === code && symbol ? symbol : p.value))
+        .join('');
+    } catch {
+      // not an ISO code - fall through to plain digits with the symbol
+    }
+  }
+
+  const number = rounded.toLocaleString(undefined, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+  return `${number} ${symbol || code}`;
+}
+
+/**
+ * Formats a per-unit rate with locale grouping; pairs with a crypto side get
+ * 8 decimals so tiny rates like 1 EUR ≈ 0.00001660 BTC don't round to zero
+ *
+ * @param value - rate to format, exact or as a number
+ * @param from  - code of the source currency
+ * @param to    - code of the target currency
+ */
+export function formatRate(value: number | Rational, from: string, to: string): string {
+  const crypto = isCrypto(from) || isCrypto(to);
+  const digits = crypto ? CRYPTO_DIGITS : FIAT_RATE_DIGITS;
+  return roundTo(value, digits).toLocaleString(undefined, {
+    minimumFractionDigits: crypto ? CRYPTO_DIGITS : FIAT_RATE_MIN_DIGITS,
+    maximumFractionDigits: digits,
+  });
+}
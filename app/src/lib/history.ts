@@ -0,0 +1,104 @@
+/** One settled conversion as shown in the history panel */
+export type HistoryEntry = {
+  id: string;
+  from: string;
+  to: string;
+  amount: number;
+  result: number;
+  rate: number;
+  /** epoch ms when the result came back */
+  at: number;
+  /** true when the rate was derived via USD cross-rates (meta.fallback) */
+  fallback: boolean;
+  /** true when the result came from a saved snapshot while offline */
+  offline?: boolean;
+};
+
+/** Oldest entries are dropped beyond this */
+export const MAX_HISTORY = 200;
+
+/** Results for the same pair this close together are one edit, not two conversions */
+const SETTLE_MS = 10_000;
+
+export const HISTORY_KEY = 'cb_history_v1';
+
+export function isHistoryList(v: unknown): v is HistoryEntry[] {
+  return (
+    Array.isArray(v) &&
+    v.every(
+      (e) =>
+        e &&
+        typeof e === 'object' &&
+        typeof e.id === 'string' &&
+        typeof e.from === 'string' &&
+        typeof e.to === 'string' &&
+        typeof e.amount === 'number' &&
+        typeof e.result === 'number' &&
+        typeof e.rate === 'number' &&
+        typeof e.at === 'number',
+    )
+  );
+}
+
+/**
+ * Adds a conversion to the front of the history (newest first)
+ *
+ * While someone is still typing an amount every pause yields a result; a new
+ * entry for the same pair within SETTLE_MS replaces the previous one, so only
+ * the settled amount is kept.
+ *
+ * @param list  - current history, newest first
+ * @param entry - conversion to record (id is generated)
+ * @param limit - cap on kept entries, defaults to MAX_HISTORY
+ */
+export function addToHistory(
+  list: HistoryEntry[],
+  entry: Omit<HistoryEntry, 'id'>,
+  limit = MAX_HISTORY,
+): HistoryEntry[] {
+  const [last, ...rest] = list;
+  const sameEdit =
+    last && last.from === entry.from && last.to === entry.to && entry.at - last.at < SETTLE_MS;
+  const id = `${entry.at.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return [{ ...entry, id }, ...(sameEdit ? rest : list)].slice(0, limit);
+}
+
+export type HistoryFilter = {
+  /** matched against codes, currency names and amounts, case-insensitive */
+  query?: string;
+  /** only entries involving this code on either side */
+  currency?: string;
+  /** only entries newer than this many days */
+  days?: number;
+  /** only entries that used the USD cross-rate fallback */
+  fallbackOnly?: boolean;
+};
+
+/**
+ * Filters history entries for the panel
+ *
+ * @param list    - entries, newest first
+ * @param filter  - criteria; empty fields don't filter
+ * @param nameOf  - resolves a code to its display name, so "yen" finds JPY
+ * @param now     - current time in ms (injectable for stable results)
+ */
+export function filterHistory(
+  list: HistoryEntry[],
+  filter: HistoryFilter,
+  nameOf: (code: string) => string = (c) => c,
+  now = Date.now(),
+): HistoryEntry[] {
+  const query = filter.query?.trim().toLowerCase();
+  const since = filter.days ? now - filter.days * 86_400_000 : 0;
+
+  return list.filter((e) => {
+    if (filter.currency && e.from !== filter.currency && e.to !== filter.currency) return false;
+    if (filter.fallbackOnly && !e.fallback) return false;
+    if (e.at < since) return false;
+    if (!query) return true;
+    const haystack = [e.from, e.to, nameOf(e.from), nameOf(e.to), String(e.amount), String(e.result)]
+      .join(' ')
+      .toLowerCase();
+    return query.split(/\s+/).every((word) => haystack.includes(word));
+  });
+}
@@ -0,0 +1,301 @@
+/**
+ * Client layer shared by every rate provider:
+ *   - TTL cache of successful answers, keyed by full request URL, optionally
+ *     backed by a persistent ResponseStore (files for the CLI)
+ *   - identical in-flight requests coalesced into one fetch
+ *   - AbortSignal support; the shared fetch is only aborted once every caller waiting on it has gone
+ */
+import { ApiError, kindForStatus } from './errors';
+import { withRetry, type RetryOptions } from './retry';
+import type { TokenBucket } from './rateLimit';
+import { isMockUrl, mockResponse } from './mock';
+
+/** Whatever res.json() yields; providers validate it (see providers/schema.ts) */
+type JsonBody = Awaited<ReturnType<Response['json']>>;
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+  /** how long a successful answer may be reused, in ms (0 = never cached) */
+  ttl?: number;
+  /** backoff for transient failures; { retries: 0 } turns retrying off */
+  retry?: RetryOptions;
+  /** paces requests that reach the network; one bucket can be shared by many endpoints */
+  limiter?: TokenBucket;
+  /** called for every request that reaches the network, retries included */
+  onRequest?: () => void;
+  /**
+   * vets a successful answer before it is cached, stored or handed to anyone
+   * waiting; throws (an ApiError) to turn it into a failure, e.g. a 200 whose
+   * body reports an error. Retryable failures are retried like failed statuses.
+   */
+  check?: (body: JsonBody) => void;
+};
+
+export type CacheEntry = {
+  /** ms since epoch after which the answer is stale */
+  expires: number;
+  value: JsonBody;
+};
+
+/**
+ * Second cache level that outlives the page or process. Read when the
+ * in-memory cache misses, written with every answer that is cached.
+ */
+export type ResponseStore = {
+  get(url: string): CacheEntry | undefined;
+  set(url: string, entry: CacheEntry): void;
+};
+
+type Shared = {
+  promise: Promise<JsonBody>;
+  controller: AbortController;
+  /** callers still waiting on this fetch */
+  waiters: number;
+};
+
+const MAX_CACHE_ENTRIES = 200;
+
+/** A network answer as fixtures keep it, for recording (see mock/fixtures.ts) */
+export type Recording = {
+  url: string;
+  label: string;
+  status: number;
+  /** only the headers the app reads (Retry-After) */
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+const cache = new Map<string, CacheEntry>();
+const inflight = new Map<string, Shared>();
+let responseStore: ResponseStore | undefined;
+let recorder: ((recording: Recording) => void) | undefined;
+
+/**
+ * Whether an error came from an aborted request rather than a failed one.
+ * Callers use this to stop falling back once nobody wants the answer.
+ *
+ * @param err - anything thrown by a request
+ */
+export function isAbortError(err: unknown): boolean {
+  return (err as { name?: string } | null)?.name === 'AbortError';
+}
+
+/** Drops every cached answer, e.g. after changing the API key */
+export function clearRequestCache(): void {
+  cache.clear();
+}
+
+/**
+ * Sets (or with undefined removes) the persistent cache level
+ *
+ * @param store - e.g. the CLI's file cache
+ */
+export function setResponseStore(store: ResponseStore | undefined): void {
+  responseStore = store;
+}
+
+/**
+ * Sets (or with undefined removes) a callback that gets every answer that came
+ * from the network, e.g. the CLI's --record writing fixture files
+ *
+ * @param record - called once per answer with a JSON body, failed statuses included
+ */
+export function setRecorder(record: ((recording: Recording) => void) | undefined): void {
+  recorder = record;
+}
+
+/**
+ * Stores an answer, evicting the oldest entries past MAX_CACHE_ENTRIES.
+ * Map iteration order is insertion order, so the first key is the oldest.
+ */
+function remember(url: string, entry: CacheEntry) {
+  cache.delete(url);
+  cache.set(url, entry);
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+/** A fresh cached answer from memory, then from the persistent store */
+function cached(url: string): CacheEntry | undefined {
+  const hit = cache.get(url);
+  if (hit && hit.expires > Date.now()) return hit;
+  if (hit) cache.delete(url);
+
+  const stored = responseStore?.get(url);
+  if (!stored || stored.expires <= Date.now()) return undefined;
+  remember(url, stored);
+  return stored;
+}
+
+/**
+ * Retry-After as ms: either delay-seconds ("120") or an HTTP date
+ *
+ * @returns undefined when the header is missing or unreadable
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  if (/^\d+$/.test(header.trim())) return Number(header) * 1000;
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+/**
+ * The actual network call: GET with JSON accept header and typed errors.
+ * mock: and replay: URLs are answered locally (see mock/) but otherwise
+ * handled the same way.
+ *
+ * @throws ApiError - network when no answer arrives, a kind by status when it
+ *   isn't OK, malformed when the body isn't JSON
+ */
+async function request(url: string, label: string, signal: AbortSignal): Promise<JsonBody> {
+  let res: Response;
+  try {
+    res = isMockUrl(url)
+      ? await mockResponse(url, label)
+      : await fetch(url, { headers: { Accept: 'application/json' }, signal });
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    // fetch only rejects when there is no answer at all (offline, DNS, CORS)
+    throw new ApiError('network', `No answer from ${label}.`, { endpoint: label, cause: e });
+  }
+
+  if (recorder && !isMockUrl(url)) {
+    const body = await res.clone().json().catch(() => undefined);
+    const retryAfter = res.headers.get('Retry-After');
+    if (body !== undefined) {
+      recorder({
+        url,
+        label,
+        status: res.status,
+        headers: retryAfter ? { 'Retry-After': retryAfter } : {},
+        body,
+      });
+    }
+  }
+
+  if (!res.ok) {
+    let msg = '';
+    try {
+      const j = await res.json();
+      msg = j?.message || j?.error || j?.meta?.error_detail || '';
+    } catch {
+      msg = (await res.text().catch(() => '')).slice(0, 200);
+    }
+    throw new ApiError(kindForStatus(res.status), `HTTP ${res.status} on ${label}${msg ? ': ' + msg : ''}`, {
+      status: res.status,
+      endpoint: label,
+      retryAfter: parseRetryAfter(res.headers.get('Retry-After')),
+    });
+  }
+
+  try {
+    return await res.json();
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    throw new ApiError('malformed', `${label} answered with something other than JSON`, {
+      endpoint: label,
+      cause: e,
+    });
+  }
+}
+
+/**
+ * Waits on a shared fetch on behalf of one caller. When that caller's signal
+ * aborts, it alone is rejected; the fetch itself is aborted on the next tick if
+ * nobody else is waiting (so StrictMode's unmount/remount can rejoin it).
+ */
+function follow(url: string, shared: Shared, signal?: AbortSignal): Promise<JsonBody> {
+  // A caller without a signal can't leave, so it keeps the fetch alive for good
+  shared.waiters++;
+  if (!signal) return shared.promise;
+
+  return new Promise<JsonBody>((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      shared.waiters--;
+      setTimeout(() => {
+        if (shared.waiters === 0 && inflight.get(url) === shared) {
+          inflight.delete(url);
+          shared.controller.abort();
+        }
+      }, 0);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    shared.promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      },
+    );
+  });
+}
+
+/**
+ * Performs a GET request and returns the parsed JSON body, answering from the
+ * cache or an identical in-flight request when possible.
+ * Shared by every rate provider so they report HTTP failures the same way.
+ *
+ * Network errors, 5xx and 429 are retried with jittered exponential backoff
+ * (honouring Retry-After); every attempt first takes a token from the limiter.
+ *
+ * @param url   - Fully built request URL, including the query string
+ * @param label - Short name of the call used in error messages, e.g. "convert"
+ * @param opts  - signal to cancel this caller's wait, ttl to cache the answer,
+ *                retry/limiter/onRequest for pacing and counting, check to
+ *                reject answers that must not be cached
+ *
+ * @returns A promise that resolves to the parsed JSON response body
+ *
+ * @throws ApiError - If the network request fails, the response status is not OK, the body isn't JSON
+ *   or check rejects it
+ * @throws DOMException (AbortError) - If signal aborts first
+ */
+export async function getJSON(url: string, label: string, opts: RequestOptions = {}): Promise<JsonBody> {
+  const { signal, ttl = 0, limiter, onRequest } = opts;
+  signal?.throwIfAborted();
+
+  const hit = cached(url);
+  if (hit) return hit.value;
+
+  let shared = inflight.get(url);
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: Shared = {
+      controller,
+      waiters: 0,
+      promise: withRetry(
+        async () => {
+          await limiter?.take(controller.signal);
+          onRequest?.();
+          const body = await request(url, label, controller.signal);
+          opts.check?.(body);
+          return body;
+        },
+        { ...opts.retry, signal: controller.signal },
+      )
+        .then((value) => {
+          if (ttl > 0) {
+            const entry = { expires: Date.now() + ttl, value };
+            remember(url, entry);
+            responseStore?.set(url, entry);
+          }
+          return value;
+        })
+        .finally(() => {
+          if (inflight.get(url) === entry) inflight.delete(url);
+        }),
+    };
+    // callers without a signal never abort; keep the rejection from going unhandled
+    entry.promise.catch(() => {});
+    inflight.set(url, entry);
+    shared = entry;
+  }
+
+  return follow(url, shared, signal);
+}
@@ -0,0 +1,167 @@
+import type { TimeseriesPoint } from './api';
+
+/**
+ * Technical indicators and summary statistics for a rate series.
+ * Inputs are plain arrays in chronological order; outputs line up index-for-index,
+ * with undefined where a window isn't full yet (so charts leave a gap).
+ */
+
+/**
+ * Simple moving average over the last period values
+ *
+ * @param values - rates, oldest first
+ * @param period - window length in points
+ */
+export function sma(values: number[], period: number): (number | undefined)[] {
+  const out: (number | undefined)[] = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    out.push(i >= period - 1 ? sum / period : undefined);
+  }
+  return out;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first period values
+ *
+ * @param values - rates, oldest first
+ * @param period - smoothing period in points (alpha = 2 / (period + 1))
+ */
+export function ema(values: number[], period: number): (number | undefined)[] {
+  const out: (number | undefined)[] = [];
+  const alpha = 2 / (period + 1);
+  let prev: number | undefined;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      out.push(undefined);
+      continue;
+    }
+    if (prev === undefined) {
+      // seed with the plain average of the first window
+      prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    } else {
+      prev = alpha * values[i] + (1 - alpha) * prev;
+    }
+    out.push(prev);
+  }
+  return out;
+}
+
+/**
+ * Bollinger bands: SMA ± k population standard deviations over the same window
+ *
+ * @param values - rates, oldest first
+ * @param period - window length in points
+ * @param k      - band width in standard deviations (2 is the usual choice)
+ */
+export function bollinger(
+  values: number[],
+  period: number,
+  k = 2,
+): { upper: number | undefined; lower: number | undefined }[] {
+  const middle = sma(values, period);
+  return middle.map((mid, i) => {
+    if (mid === undefined) return { upper: undefined, lower: undefined };
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((acc, v) => acc + (v - mid) ** 2, 0) / period;
+    const sd = Math.sqrt(variance);
+    return { upper: mid + k * sd, lower: mid - k * sd };
+  });
+}
+
+export type SeriesStats = {
+  first: number;
+  last: number;
+  change: number;
+  changePct: number;
+  high: { date: string; rate: number };
+  low: { date: string; rate: number };
+  average: number;
+  /** annualised volatility of log returns, as a fraction (0.08 = 8%); undefined below 3 points */
+  volatility: number | undefined;
+};
+
+/**
+ * Summary statistics for a series: period change, high/low, average and
+ * annualised volatility.
+ *
+ * Volatility is annualised by how often the series is actually sampled
+ * (points per calendar year), so business-day and calendar-day providers
+ * give comparable numbers.
+ *
+ * @param series - points as returned by getTimeseries, oldest first
+ * @returns Stats, or null for an empty series
+ */
+export function seriesStats(series: TimeseriesPoint[]): SeriesStats | null {
+  if (!series.length) return null;
+
+  const first = series[0].rate;
+  const last = series[series.length - 1].rate;
+
+  let high = series[0];
+  let low = series[0];
+  let sum = 0;
+  for (const p of series) {
+    if (p.rate > high.rate) high = p;
+    if (p.rate < low.rate) low = p;
+    sum += p.rate;
+  }
+
+  let volatility: number | undefined;
+  if (series.length >= 3) {
+    const returns: number[] = [];
+    for (let i = 1; i < series.length; i++) {
+      returns.push(Math.log(series[i].rate / series[i - 1].rate));
+    }
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1);
+
+    const spanDays =
+      (Date.parse(series[series.length - 1].date) - Date.parse(series[0].date)) / 86_400_000;
+    const perYear = spanDays > 0 ? (returns.length / spanDays) * 365 : 252;
+    volatility = Math.sqrt(variance * perYear);
+  }
+
+  return {
+    first,
+    last,
+    change: last - first,
+    changePct: first ? ((last - first) / first) * 100 : 0,
+    high: { date: high.date, rate: high.rate },
+    low: { date: low.date, rate: low.rate },
+    average: sum / series.length,
+    volatility,
+  };
+}
+
+/**
+ * Window length for moving averages that still fits short ranges:
+ * the preferred period, shrunk to a third of the series for e.g. 7D views
+ *
+ * @param length    - number of points in the series
+ * @param preferred - period to use when there is enough data (default 20)
+ */
+export function indicatorPeriod(length: number, preferred = 20): number {
+  return Math.max(2, Math.min(preferred, Math.floor(length / 3)));
+}
+
+export type IndexMode = 'index' | 'percent';
+
+/**
+ * Rebases a series on its first point so pairs with very different price
+ * levels can share one axis: 'index' starts at 100, 'percent' at 0 %.
+ *
+ * @param series - chronological rates
+ * @param mode   - 'index' (first = 100) or 'percent' (change from first, in %)
+ */
+export function indexSeries(series: TimeseriesPoint[], mode: IndexMode): TimeseriesPoint[] {
+  const first = series[0]?.rate;
+  if (!first) return [];
+  return series.map((p) => ({
+    date: p.date,
+    rate: mode === 'index' ? (p.rate / first) * 100 : (p.rate / first - 1) * 100,
+  }));
+}
@@ -0,0 +1,74 @@
+/**
+ * Canned API answers, for replay mode and for tests that must run offline.
+ *
+ * A fixture is keyed by the call's label (what getJSON was given, e.g.
+ * "latest" or "frankfurter latest") and its query string without the API
+ * key, so the same fixture answers whatever base URL the app was built with.
+ */
+
+export type Fixture = {
+  /** what the fixture shows, e.g. "currencies: response is an array of objects" */
+  variant?: string;
+  /** call label, e.g. "timeseries" or "frankfurter 2024-01-01..2024-01-31" */
+  endpoint: string;
+  /** query string without api_key, parameters sorted */
+  query: string;
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+  /**
+   * what the provider should make of body: the sorted currency codes, rates, daily
+   * rates or converted amount it returns, or { error: kind } when it must
+   * throw an ApiError of that kind
+   */
+  expected?: unknown;
+};
+
+/**
+ * The query part of url as fixtures store it: api_key dropped, sorted
+ *
+ * @param url - full request URL, any scheme
+ */
+export function fixtureQuery(url: string): string {
+  const i = url.indexOf('?');
+  const params = new URLSearchParams(i === -1 ? '' : url.slice(i + 1));
+  params.delete('api_key');
+  params.sort();
+  return params.toString();
+}
+
+/**
+ * The fixture recorded for a call, if any
+ *
+ * @param fixtures - candidates
+ * @param endpoint - call label
+ * @param url      - request URL
+ */
+export function findFixture(fixtures: Fixture[], endpoint: string, url: string): Fixture | undefined {
+  const query = fixtureQuery(url);
+  return fixtures.find((f) => f.endpoint === endpoint && f.query === query);
+}
+
+/**
+ * A fixture as a fetch Response, so it goes through the same status, header
+ * and JSON handling as a real answer
+ */
+export function toResponse(fixture: Fixture): Response {
+  return new Response(JSON.stringify(fixture.body), {
+    status: fixture.status,
+    headers: { 'Content-Type': 'application/json', ...fixture.headers },
+  });
+}
+
+/** Whether value has a fixture's shape, e.g. when reading fixture files */
+export function isFixture(value: unknown): value is Fixture {
+  const f = value as Fixture | null;
+  return (
+    !!f &&
+    typeof f === 'object' &&
+    typeof f.endpoint === 'string' &&
+    typeof f.query === 'string' &&
+    typeof f.status === 'number' &&
+    'body' in f
+  );
+}
@@ -0,0 +1,76 @@
+import { findFixture, isFixture, toResponse, type Fixture } from './fixtures';
+import { syntheticFixture } from './synthetic';
+
+/**
+ * Answers for requests that must not reach the network, chosen by the base
+ * URL a provider is configured with:
+ *   - mock:    synthetic, deterministic rates for every endpoint
+ *   - replay:  recorded fixtures (fixtures/recorded, or any set passed to
+ *              setReplayFixtures); a call without one fails like a 404
+ *
+ * e.g. VITE_CURRENCYBEACON_BASE=mock: and VITE_FRANKFURTER_BASE=mock:
+ */
+
+export type { Fixture };
+
+export const MOCK_SCHEME = 'mock:';
+export const REPLAY_SCHEME = 'replay:';
+
+let replayFixtures: Fixture[] | undefined;
+
+/**
+ * Whether url is answered here instead of by the network
+ *
+ * @param url - full request URL
+ */
+export function isMockUrl(url: string): boolean {
+  return url.startsWith(MOCK_SCHEME) || url.startsWith(REPLAY_SCHEME);
+}
+
+/**
+ * Replaces the fixtures replay mode answers from, e.g. with files the CLI
+ * recorded or one payload variant a test wants to see
+ *
+ * @param fixtures - answers to serve; the bundled recordings when undefined
+ */
+export function setReplayFixtures(fixtures: Fixture[] | undefined): void {
+  replayFixtures = fixtures;
+}
+
+// Recordings shipped with the app; loaded the first time replay mode needs them
+async function bundledFixtures(): Promise<Fixture[]> {
+  const files = import.meta.glob<unknown>('./fixtures/recorded/*.json', { import: 'default' });
+  const loaded = await Promise.all(Object.values(files).map((load) => load()));
+  return loaded.filter(isFixture);
+}
+
+/**
+ * One fixture per payload shape the providers accept (and per error they
+ * must recognise), each with the result it should parse to. Serve one with
+ * setReplayFixtures([fixture]) and make its call against a replay: base.
+ */
+export function variantFixtures(): Fixture[] {
+  const files = import.meta.glob<unknown>('./fixtures/variants/*.json', { import: 'default', eager: true });
+  return Object.values(files).filter(isFixture);
+}
+
+/**
+ * The answer to a mock or replay request
+ *
+ * @param url      - request URL starting with mock: or replay:
+ * @param endpoint - call label, e.g. "latest"; fixtures are looked up by it
+ */
+export async function mockResponse(url: string, endpoint: string): Promise<Response> {
+  if (url.startsWith(MOCK_SCHEME)) return toResponse(syntheticFixture(endpoint, url));
+
+  replayFixtures ??= await bundledFixtures();
+  const fixture = findFixture(replayFixtures, endpoint, url);
+  return fixture
+    ? toResponse(fixture)
+    : toResponse({
+        endpoint,
+        query: '',
+        status: 404,
+        body: { message: `No recorded fixture for ${endpoint} with this query.` },
+      });
+}
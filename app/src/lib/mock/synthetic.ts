@@ -0,0 +1,195 @@
+import { fixtureQuery, type Fixture } from './fixtures';
+
+/**
+ * Made-up but deterministic rates for mock mode and the proxy's stub
+ * upstream: the same request always gets the same numbers, today included,
+ * so demos and screenshots are repeatable. Answers have the real APIs' shapes
+ * (CurrencyBeacon, or Frankfurter for "frankfurter ..." calls), so parsing
+ * and validation run exactly as they would against the network.
+ */
+
+// Rough USD rates the synthetic ones wobble around
+const USD_RATES: Record<string, number> = {
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 151.2,
+  CHF: 0.88,
+  CAD: 1.36,
+  AUD: 1.52,
+  CNY: 7.24,
+  INR: 83.4,
+  BTC: 0.0000158,
+  ETH: 0.00031,
+  SOL: 0.0068,
+  XRP: 1.91,
+  LTC: 0.0139,
+  DOGE: 7.4,
+  ADA: 2.6,
+};
+
+const NAMES: Record<string, [name: string, symbol: string, type: 'fiat' | 'crypto']> = {
+  USD: ['US Dollar', '$', 'fiat'],
+  EUR: ['Euro', '€', 'fiat'],
+  GBP: ['British Pound Sterling', '£', 'fiat'],
+  JPY: ['Japanese Yen', '¥', 'fiat'],
+  CHF: ['Swiss Franc', 'CHF', 'fiat'],
+  CAD: ['Canadian Dollar', 'C$', 'fiat'],
+  AUD: ['Australian Dollar', 'A$', 'fiat'],
+  CNY: ['Chinese Yuan', '¥', 'fiat'],
+  INR: ['Indian Rupee', '₹', 'fiat'],
+  BTC: ['Bitcoin', '₿', 'crypto'],
+  ETH: ['Ethereum', 'Ξ', 'crypto'],
+  SOL: ['Solana', 'SOL', 'crypto'],
+  XRP: ['XRP', 'XRP', 'crypto'],
+  LTC: ['Litecoin', 'Ł', 'crypto'],
+  DOGE: ['Dogecoin', 'Ð', 'crypto'],
+  ADA: ['Cardano', '₳', 'crypto'],
+};
+
+const ONE_DAY = 86_400_000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * USD rate of code on date: the base rate moved by up to ±3% along a slow
+ * wave whose phase depends on the code, rounded to 6 significant digits
+ */
+function usdRate(code: string, date: string): number | undefined {
+  if (code === 'USD') return 1;
+  const rate = USD_RATES[code];
+  if (rate === undefined) return undefined;
+  const day = Math.floor(Date.parse(date) / ONE_DAY);
+  const phase = [...code].reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  return Number((rate * (1 + 0.03 * Math.sin(day / 11 + phase))).toPrecision(6));
+}
+
+/**
+ * Synthetic rates of symbols against base on date
+ *
+ * @param base    - base currency code
+ * @param symbols - target codes; every known code when empty
+ * @param date    - "YYYY-MM-DD"
+ *
+ * @returns Rates keyed by code (unknown codes and base left out; empty for an unknown base)
+ */
+export function syntheticRates(base: string, symbols: string[], date: string): Record<string, number> {
+  const baseRate = usdRate(base, date);
+  if (baseRate === undefined) return {};
+  const codes = symbols.length ? symbols : Object.keys(NAMES);
+  const rates: Record<string, number> = {};
+  for (const code of codes) {
+    const rate = usdRate(code, date);
+    if (rate !== undefined && code !== base) rates[code] = Number((rate / baseRate).toPrecision(8));
+  }
+  return rates;
+}
+
+/** Every day from start to end inclusive, "YYYY-MM-DD" */
+function daysBetween(start: string, end: string): string[] {
+  const days: string[] = [];
+  for (let t = Date.parse(start); t <= Date.parse(end); t += ONE_DAY) {
+    days.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const ok = (response: unknown, extra: Record<string, unknown> = {}) => ({
+  meta: { code: 200, disclaimer: 'Synthetic rates for development and demos.' },
+  response,
+  ...extra,
+});
+
+const failure = (status: number, detail: string) => ({
+  status,
+  body: { meta: { code: status, error_detail: detail } },
+});
+
+/** CurrencyBeacon-shaped answer for one endpoint */
+function currencyBeacon(endpoint: string, q: URLSearchParams): { status: number; body: unknown } {
+  const upper = (name: string) => (q.get(name) ?? '').trim().toUpperCase();
+  const symbols = upper('symbols').split(',').filter(Boolean);
+  const base = upper('base') || 'USD';
+
+  switch (endpoint) {
+    case 'currencies': {
+      const type = q.get('type') === 'crypto' ? 'crypto' : 'fiat';
+      const list = Object.entries(NAMES)
+        .filter(([, [, , t]]) => t === type)
+        .map(([code, [name, symbol]], i) => ({ id: i + 1, name, short_code: code, symbol }));
+      return { status: 200, body: ok(list) };
+    }
+
+    case 'latest':
+    case 'historical': {
+      const date = endpoint === 'latest' ? today() : (q.get('date') ?? '');
+      if (!ISO_DATE.test(date)) return failure(422, 'date is required.');
+      const rates = syntheticRates(base, symbols, date);
+      return { status: 200, body: ok({ date, base, rates }, { date, base, rates }) };
+    }
+
+    case 'timeseries': {
+      const start = q.get('start_date') ?? '';
+      const end = q.get('end_date') ?? '';
+      if (!ISO_DATE.test(start) || !ISO_DATE.test(end) || end < start) {
+        return failure(422, 'start_date and end_date are required.');
+      }
+      const days = Object.fromEntries(daysBetween(start, end).map((d) => [d, syntheticRates(base, symbols, d)]));
+      return { status: 200, body: ok(days) };
+    }
+
+    case 'convert': {
+      const from = upper('from');
+      const to = upper('to');
+      const amount = Number(q.get('amount'));
+      const rate = from === to ? 1 : syntheticRates(from, [to], today())[to];
+      if (rate === undefined || !Number.isFinite(amount)) return failure(422, `No rate for ${from} to ${to}.`);
+      const response = { date: today(), from, to, amount, value: Number((amount * rate).toFixed(8)) };
+      return { status: 200, body: ok(response, response) };
+    }
+
+    default:
+      return failure(404, `Unknown endpoint "${endpoint}".`);
+  }
+}
+
+/** Frankfurter-shaped answer for one path: currencies, latest, a date or a date range */
+function frankfurter(path: string, q: URLSearchParams): { status: number; body: unknown } {
+  const base = (q.get('base') ?? 'EUR').toUpperCase();
+  const symbols = (q.get('symbols') ?? '').toUpperCase().split(',').filter(Boolean);
+  const fiat = (rates: Record<string, number>) =>
+    Object.fromEntries(Object.entries(rates).filter(([code]) => NAMES[code]?.[2] === 'fiat'));
+
+  if (path === 'currencies') {
+    const list = Object.entries(NAMES).filter(([, [, , t]]) => t === 'fiat');
+    return { status: 200, body: Object.fromEntries(list.map(([code, [name]]) => [code, name])) };
+  }
+
+  const [start, end] = path === 'latest' ? [today(), today()] : path.split('..');
+  if (!ISO_DATE.test(start) || (end !== undefined && !ISO_DATE.test(end))) {
+    return { status: 404, body: { message: 'not found' } };
+  }
+  if (end === undefined || path === 'latest') {
+    return { status: 200, body: { amount: 1, base, date: start, rates: fiat(syntheticRates(base, symbols, start)) } };
+  }
+
+  // ECB publishes no rates at weekends
+  const days = daysBetween(start, end).filter((d) => new Date(d).getUTCDay() % 6 !== 0);
+  const rates = Object.fromEntries(days.map((d) => [d, fiat(syntheticRates(base, symbols, d))]));
+  return { status: 200, body: { amount: 1, base, start_date: start, end_date: end, rates } };
+}
+
+/**
+ * Synthetic answer for a call
+ *
+ * @param endpoint - call label as given to getJSON, e.g. "latest" or "frankfurter 2024-01-31"
+ * @param url      - request URL; only its query string is read
+ */
+export function syntheticFixture(endpoint: string, url: string): Fixture {
+  const query = fixtureQuery(url);
+  const q = new URLSearchParams(query);
+  const answer = endpoint.startsWith('frankfurter ')
+    ? frankfurter(endpoint.slice('frankfurter '.length), q)
+    : currencyBeacon(endpoint, q);
+  return { endpoint, query, ...answer };
+}
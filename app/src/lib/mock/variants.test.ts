@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configure } from '../config';
+import { isApiError } from '../errors';
+import { clearRequestCache } from '../http';
+import { currencyBeacon } from '../providers/currencybeacon';
+import { frankfurter } from '../providers/frankfurter';
+import type { CurrencyType, RateProvider } from '../providers/types';
+import { memoryStore, setStorage } from '../storage';
+import { setReplayFixtures, variantFixtures, type Fixture } from '.';
+
+/**
+ * Replays every payload variant through the provider that would receive it
+ * and checks the result against the fixture's `expected`
+ */
+
+/** The provider call a fixture answers, rebuilt from its label and query */
+function call(fixture: Fixture): Promise<unknown> {
+  const q = new URLSearchParams(fixture.query);
+  const isFrankfurter = fixture.endpoint.startsWith('frankfurter ');
+  const provider: RateProvider = isFrankfurter ? frankfurter : currencyBeacon;
+  const endpoint = isFrankfurter ? fixture.endpoint.slice('frankfurter '.length) : fixture.endpoint;
+  const base = q.get('base') ?? '';
+  const symbols = (q.get('symbols') ?? '').split(',').filter(Boolean);
+
+  switch (endpoint) {
+    case 'currencies':
+      return provider
+        .currencies((q.get('type') ?? 'fiat') as CurrencyType)
+        .then((list) => list.map((c) => c.code).sort());
+    case 'latest':
+      return provider.latest({ base, symbols });
+    case 'historical':
+      return provider.historical!({ base, symbols, date: q.get('date')! });
+    case 'timeseries':
+      return provider.timeseries({ base, symbols, start: q.get('start_date')!, end: q.get('end_date')! });
+    case 'convert': {
+      const args = { from: q.get('from')!, to: q.get('to')!, amount: Number(q.get('amount')) };
+      return provider.convert(args).then((res) => res.result);
+    }
+  }
+  // Frankfurter paths: "2024-01-01..2024-01-31" or a single date
+  const [start, end] = endpoint.split('..');
+  return end
+    ? provider.timeseries({ base, symbols, start, end })
+    : provider.historical!({ base, symbols, date: start });
+}
+
+describe('payload variants', () => {
+  beforeAll(() => {
+    setStorage(memoryStore());
+    configure({ currencyBeaconBase: 'replay:', frankfurterBase: 'replay:frankfurter', currencyBeaconApiKey: 'k' });
+    // retries (429 with Retry-After, 500) wait on timers
+    vi.useFakeTimers();
+  });
+  afterAll(() => {
+    vi.useRealTimers();
+    setReplayFixtures(undefined);
+  });
+  beforeEach(() => clearRequestCache());
+
+  const fixtures = variantFixtures();
+
+  it('covers every provider call', () => {
+    expect(fixtures.length).toBeGreaterThanOrEqual(34);
+    expect(fixtures.every((f) => f.variant && f.expected !== undefined)).toBe(true);
+  });
+
+  it.each(fixtures.map((f) => [f.variant!, f] as const))('%s', async (_variant, fixture) => {
+    setReplayFixtures([fixture]);
+    const outcome = call(fixture).then(
+      (value) => value,
+      (e: unknown) => (isApiError(e) ? { error: e.kind } : Promise.reject(e)),
+    );
+    await vi.runAllTimersAsync();
+    expect(await outcome).toEqual(fixture.expected);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Exact rational numbers for money maths.
+ *
+ * Rates arrive as JSON numbers, but what the provider meant is the short
+ * decimal it wrote ("0.9137"). Reading that decimal exactly and keeping every
+ * cross-rate, inverse and product as a fraction of BigInts means nothing is
+ * lost until the one explicit rounding at presentation (toFixedString).
+ */
+
+/** n / d, with d > 0 and the fraction in lowest terms */
+export type Rational = { readonly n: bigint; readonly d: bigint };
+
+export type RoundingMode = 'half-up' | 'half-even';
+
+const abs = (x: bigint) => (x < 0n ? -x : x);
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = abs(a);
+  b = abs(b);
+  while (b) [a, b] = [b, a % b];
+  return a || 1n;
+}
+
+function make(n: bigint, d: bigint): Rational {
+  if (d === 0n) throw new RangeError('Division by zero.');
+  if (d < 0n) {
+    n = -n;
+    d = -d;
+  }
+  const g = gcd(n, d);
+  return { n: n / g, d: d / g };
+}
+
+export const ZERO: Rational = { n: 0n, d: 1n };
+export const ONE: Rational = { n: 1n, d: 1n };
+
+/**
+ * Exact value of a decimal number
+ *
+ * Numbers are read through their shortest decimal form, so 0.1 is exactly
+ * 1/10 rather than the binary 0.1000000000000000055…
+ *
+ * @param value - number, decimal string ("1234.5", "1e-7") or bigint
+ *
+ * @throws RangeError for NaN, Infinity or text that isn't a decimal number
+ */
+export function rational(value: number | string | bigint): Rational {
+  if (typeof value === 'bigint') return { n: value, d: 1n };
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new RangeError(`Not a finite number: ${value}`);
+  }
+
+  const m = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+  if (!m || (!m[2] && !m[3])) throw new RangeError(`Not a decimal number: ${value}`);
+
+  const [, sign, int, frac = '', exp = '0'] = m;
+  const shift = Number(exp) - frac.length;
+  let n = BigInt(`${int || '0'}${frac}`);
+  let d = 1n;
+  if (shift >= 0) n *= 10n ** BigInt(shift);
+  else d = 10n ** BigInt(-shift);
+  return make(sign === '-' ? -n : n, d);
+}
+
+export const add = (a: Rational, b: Rational): Rational => make(a.n * b.d + b.n * a.d, a.d * b.d);
+
+export const sub = (a: Rational, b: Rational): Rational => make(a.n * b.d - b.n * a.d, a.d * b.d);
+
+export const mul = (a: Rational, b: Rational): Rational => make(a.n * b.n, a.d * b.d);
+
+/** a / b; throws a RangeError when b is zero */
+export const div = (a: Rational, b: Rational): Rational => make(a.n * b.d, a.d * b.n);
+
+/** 1 / a, e.g. the EUR→USD rate from a USD→EUR one */
+export const inverse = (a: Rational): Rational => div(ONE, a);
+
+export const isZero = (a: Rational): boolean => a.n === 0n;
+
+/**
+ * Rounds to a fixed number of decimals with the given tie rule
+ *
+ * @param a      - value to round
+ * @param digits - decimals to keep
+ * @param mode   - 'half-up' (ties away from zero) or 'half-even'
+ *
+ * @returns Plain decimal text, e.g. "-1234.57"; never in exponent form
+ */
+export function toFixedString(a: Rational, digits: number, mode: RoundingMode = 'half-up'): string {
+  const scale = 10n ** BigInt(digits);
+  const scaled = abs(a.n) * scale;
+  let q = scaled / a.d;
+  const twiceRemainder = (scaled % a.d) * 2n;
+
+  if (twiceRemainder > a.d || (twiceRemainder === a.d && (mode === 'half-up' || q % 2n === 1n))) {
+    q += 1n;
+  }
+
+  const text = q.toString().padStart(digits + 1, '0');
+  const int = text.slice(0, text.length - digits);
+  const frac = digits ? `.${text.slice(-digits)}` : '';
+  return `${a.n < 0n && q !== 0n ? '-' : ''}${int}${frac}`;
+}
+
+/**
+ * Nearest double; fine for charts and comparisons, not for totals
+ *
+ * @param a - value to convert
+ */
+export function toNumber(a: Rational): number {
+  // ~20 significant digits is more than a double holds, so Number() gets the nearest value
+  const magnitude = abs(a.n).toString().length - a.d.toString().length;
+  return Number(toFixedString(a, Math.max(0, 20 - magnitude)));
+}
@@ -0,0 +1,65 @@
+import { isAbortError } from './http';
+import { isApiError } from './errors';
+
+/**
+ * Tiny observable for "are we serving saved rates?", set by the API layer and
+ * read by the UI banner through useOfflineStatus.
+ */
+
+export type OfflineState = {
+  offline: boolean;
+  /** day of the newest saved rates in use, "YYYY-MM-DD" */
+  asOf?: string;
+};
+
+let state: OfflineState = { offline: false };
+const listeners = new Set<() => void>();
+
+function set(next: OfflineState) {
+  if (next.offline === state.offline && next.asOf === state.asOf) return;
+  state = next;
+  listeners.forEach((l) => l());
+}
+
+/** Current state; stable between changes, as useSyncExternalStore expects */
+export function getOfflineState(): OfflineState {
+  return state;
+}
+
+/** Registers a change listener; returns the unsubscribe function */
+export function subscribeOffline(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Records that a result came from saved snapshots. Keeps the oldest date seen
+ * so the banner never overstates how fresh the numbers on screen are.
+ *
+ * @param asOf - day of the snapshot used, "YYYY-MM-DD"
+ */
+export function markOffline(asOf: string): void {
+  const oldest = state.offline && state.asOf && state.asOf < asOf ? state.asOf : asOf;
+  set({ offline: true, asOf: oldest });
+}
+
+/** Records that live rates were fetched successfully */
+export function markOnline(): void {
+  set({ offline: false });
+}
+
+/**
+ * Whether an error looks like a missing connection rather than a bad answer.
+ * getJSON reports an unreachable network as a network ApiError; a bare
+ * TypeError is what fetch itself rejects with.
+ * A cancelled request is never "offline".
+ *
+ * @param err - error thrown by a provider call
+ */
+export function isOfflineError(err: unknown): boolean {
+  if (isAbortError(err)) return false;
+  const browserOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  return browserOffline || isApiError(err, 'network') || err instanceof TypeError;
+}
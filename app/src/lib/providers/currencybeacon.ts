@@ -0,0 +1,298 @@
+import { getJSON } from '../http';
+import { ApiError, kindForStatus } from '../errors';
+import { createTokenBucket, type TokenBucket } from '../rateLimit';
+import { getConfig } from '../config';
+import { recordCall, remainingCalls } from '../usage';
+import { isMockUrl } from '../mock';
+import {
+  convertBody,
+  object,
+  ratesBody,
+  refine,
+  timeseriesBody,
+  validate,
+  type Schema,
+} from './schema';
+import type { CallOptions, Currency, CurrencyType, DailyRates, RateProvider, Rates } from './types';
+
+const MINUTE = 60_000;
+
+// One bucket for every endpoint: bursts of up to 10 requests, then
+// VITE_CURRENCYBEACON_RATE_LIMIT per second (default 5). Made on first use.
+let limiter: TokenBucket | undefined;
+
+// How long each endpoint's answers may be reused from the request cache
+// (the proxy server uses the same table). Past days never change; "today" is
+// refreshed like latest.
+export const CACHE_TTL: Record<string, number> = {
+  currencies: 24 * 60 * MINUTE,
+  latest: MINUTE,
+  convert: MINUTE,
+  timeseries: 10 * MINUTE,
+  historical: 24 * 60 * MINUTE,
+};
+
+/**
+ * Creates a URL-encoded query string for CurrencyBeacon requests.
+ *
+ * Iterates over the provided params object and adds each non-nullish entry
+ * to a URLSearchParams instance, appends API key
+ *
+ * @param params - A flat map of query parameters to include in the request URL
+ * { from: 'USD', to: 'EUR', amount: 1 }
+ *
+ * @returns a URLSearchParams instance containing the encoded parameters and API_KEY
+ */
+function buildQuery(
+  params: Record<string, string | number | undefined>
+): URLSearchParams {
+  const query = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params)) {
+    const hasValue = value !== undefined && value !== null;
+    if (hasValue) query.set(key, String(value));
+  }
+
+  const apiKey = getConfig().currencyBeaconApiKey;
+  if (apiKey) {
+    query.set('api_key', apiKey);
+  }
+
+  return query;
+}
+
+/**
+ * The error a 200 answer reports in its meta block, if any: some plans answer
+ * { meta: { code: 401, error_detail } } instead of failing with that status
+ */
+function metaError(json: unknown, endpoint: string): ApiError | undefined {
+  const meta = (json as { meta?: { code?: unknown; error_detail?: string; error_type?: string } } | null)?.meta;
+  const code = meta?.code;
+  if (typeof code !== 'number' || code < 400) return undefined;
+  const detail = meta?.error_detail || meta?.error_type || '';
+  return new ApiError(kindForStatus(code), `${endpoint} failed (${code})${detail ? ': ' + detail : ''}`, {
+    status: code,
+    endpoint,
+  });
+}
+
+/**
+ * Check for getJSON that rejects an answer before it is cached: an error in
+ * its meta block, or a body the endpoint's schema can't read. Without it a
+ * 200 carrying "invalid key" would be served from the cache (and by the
+ * proxy, to every client) for as long as the endpoint's TTL.
+ *
+ * @param endpoint - e.g. "latest"
+ * @param type     - currency group a currencies call asked for
+ *
+ * @throws ApiError - the meta block's error, or malformed
+ */
+export function checkAnswer(endpoint: string, type: CurrencyType = 'fiat'): (json: unknown) => void {
+  const schema: Schema<unknown> | undefined =
+    endpoint === 'currencies'
+      ? currenciesBody(type)
+      : { latest: ratesBody, historical: ratesBody, timeseries: timeseriesBody, convert: convertBody }[endpoint];
+  return (json) => {
+    const err = metaError(json, endpoint);
+    if (err) throw err;
+    if (schema) validate(schema, json, endpoint);
+  };
+}
+
+/**
+ * Performs a GET request against the CurrencyBeacon API and returns the parsed JSON body, 
+ * Also, removes any trailing slash in the URL, appends the endpoint "convert", "currencies", utilzes buildQuery
+ *
+ *
+ * @param endpoint - path segment e.g., "convert", "currencies"
+ * @param params - Key/value pairs to send as query parameters, buildQuery will URL-encode
+ * @param opts - signal to cancel the request; the endpoint picks the cache TTL
+ *
+ * Requests wait for the shared limiter and are counted towards today's usage.
+ * Answers are vetted by checkAnswer before they are cached.
+ *
+ * @returns A promise that resolves to the parsed JSON response body
+ *
+ * @throws ApiError - If the network request fails, the response status is not OK,
+ * a 200 answer carries an error code in its meta block, or the body has the wrong shape
+ */
+async function get(endpoint: string, params: Record<string, any> = {}, opts: CallOptions = {}) {
+  const { currencyBeaconBase, currencyBeaconRateLimit } = getConfig();
+  const url = `${currencyBeaconBase.replace(/\/+$/, '')}/${endpoint}?${buildQuery(params)}`;
+  limiter ??= createTokenBucket({ capacity: 10, perSecond: currencyBeaconRateLimit });
+  return getJSON(url, endpoint, {
+    signal: opts.signal,
+    ttl: CACHE_TTL[endpoint] ?? 0,
+    limiter,
+    // mock and replay answers cost nothing
+    onRequest: isMockUrl(url) ? undefined : () => recordCall(),
+    check: checkAnswer(endpoint, params.type),
+  });
+}
+
+/**
+ * List of currencies from API payload
+ * defensive processing of data - arrays vs. objects, different field names, mixed casing,
+ *
+ * @param raw  - The original JSON payload returned by the API.
+ * @param type - Which group to prefer when both are present: "fiat" or "crypto"
+ *
+ * @returns An array of normalized currencies: { code: string; name: string; symbol?: string }[]
+ */
+export function parseCurrenciesJSON(raw: any, type: CurrencyType): Currency[] {
+  const sources = [
+    raw?.response?.currencies,
+    raw?.response?.[type],
+    raw?.currencies,
+    raw?.data?.currencies,
+    raw?.data?.[type],
+    raw?.response,
+    raw, // as a last resort, try the top-level object itself
+  ];
+
+  // Accumulate unique currencies by their normalized code (e.g., "USD")
+  const currencyByCode: Record<string, Currency> = {};
+
+  // Normalize any input to an uppercase string code.
+  const normalizeCode = (value: unknown) => String(value ?? '').trim().toUpperCase();
+
+  // Safely add/overwrite a currency candidate if it looks valid.
+  const addCandidate = (codeRaw: unknown, nameRaw?: unknown, symbolRaw?: unknown) => {
+    const code = normalizeCode(codeRaw);
+
+    // Only accept plausible ISO-like alphabetic codes, 3–5 chars (e.g., "USD", "XBT")
+    if (!/^[A-Z]{3,5}$/.test(code)) return;
+
+    const name = String(nameRaw ?? code);
+    const symbol = symbolRaw as string | undefined;
+
+    currencyByCode[code] = { code, name, symbol };
+  };
+
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+
+    // Array of currency objects
+    if (Array.isArray(source)) {
+      for (const item of source) {
+        const v: any = item ?? {};
+
+        // Prefer alphabetic short code fields over numeric codes
+        const code =
+          v.short_code ??          // preferred (often ISO alpha)
+          v.code ??                // sometimes alpha, sometimes numeric
+          v.iso_code ??            // provider-specific
+          v.ticker ??              // crypto
+          v.currency;              // generic field
+
+        const name =
+          v.name ??
+          v.currency_name ??
+          v.fullName ??
+          v.currency ??
+          v.label ??
+          code;
+
+        const symbol = v.symbol ?? v.symbol_native ?? v.sign;
+
+        if (code && name) addCandidate(code, name, symbol);
+      }
+      continue;
+    }
+
+    // Object map (keys may be codes OR numeric IDs; values can be strings or objects)
+    for (const [key, value] of Object.entries(source)) {
+      // map code to readable name
+      if (typeof value === 'string') {
+        if (/^[A-Z]{3,5}$/.test(key)) addCandidate(key, value);
+        continue;
+      }
+
+      const v: any = value ?? {};
+      const code =
+        v.short_code ??
+        v.code ??
+        v.iso_code ??
+        v.ticker ??
+        v.currency ??
+        (/^[A-Z]{3,5}$/.test(key) ? key : undefined);
+
+      const name =
+        v.name ??
+        v.currency_name ??
+        v.fullName ??
+        v.currency ??
+        v.label ??
+        code;
+
+      const symbol = v.symbol ?? v.symbol_native ?? v.sign;
+
+      if (code && name) addCandidate(code, name, symbol);
+    }
+  }
+
+  // Sort by name A-Z, then code
+  return Object.values(currencyByCode).sort(
+    (a, b) => a.name.localeCompare(b.name) || a.code.localeCompare(b.code),
+  );
+}
+
+/**
+ * Schema for a currencies answer: whatever parseCurrenciesJSON can read,
+ * as long as it yields at least one currency
+ *
+ * @param type - which group to prefer: "fiat" or "crypto"
+ */
+export function currenciesBody(type: CurrencyType): Schema<Currency[]> {
+  return refine(
+    (value, path) => parseCurrenciesJSON(object(value, path), type),
+    (list) => list.length > 0,
+    'a list of currencies',
+  );
+}
+
+/**
+ * CurrencyBeacon (https://currencybeacon.com), the primary source.
+ * Needs VITE_CURRENCYBEACON_API_KEY; covers fiat and crypto.
+ */
+export const currencyBeacon: RateProvider = {
+  id: 'currencybeacon',
+  label: 'CurrencyBeacon',
+  maxRangeDays: 365,
+
+  remainingCalls: () => remainingCalls(),
+
+  async currencies(type: CurrencyType, opts): Promise<Currency[]> {
+    const raw = await get('currencies', { type }, opts);
+    return validate(currenciesBody(type), raw, 'currencies');
+  },
+
+  async latest({ base, symbols }, opts): Promise<Rates> {
+    const json = await get('latest', { base, symbols: symbols?.join(',') || undefined }, opts);
+    return validate(ratesBody, json, 'latest');
+  },
+
+  async convert({ from, to, amount }, opts) {
+    const json = await get('convert', { from, to, amount }, opts);
+    const result = validate(convertBody, json, 'convert');
+
+    // compute a per-unit rate; api.ts derives the exact one from the same numbers
+    const perUnit = amount ? result / amount : undefined;
+    return { result, rate: perUnit, meta: json };
+  },
+
+  async timeseries({ base, symbols, start, end }, opts): Promise<DailyRates> {
+    const json = await get(
+      'timeseries',
+      { base, start_date: start, end_date: end, symbols: symbols.join(',') },
+      opts,
+    );
+
+    return validate(timeseriesBody, json, 'timeseries');
+  },
+
+  async historical({ base, symbols, date }, opts): Promise<Rates> {
+    const json = await get('historical', { base, date, symbols: symbols.join(',') }, opts);
+    return validate(ratesBody, json, 'historical');
+  },
+};
@@ -0,0 +1,116 @@
+import { getJSON } from '../http';
+import { currenciesBody } from './currencybeacon';
+import { ratesBody, timeseriesBody, validate } from './schema';
+import { ApiError } from '../errors';
+import { mul, rational, toNumber } from '../money';
+import { getConfig } from '../config';
+import type { CallOptions, Currency, CurrencyType, DailyRates, RateProvider, Rates } from './types';
+
+const MINUTE = 60_000;
+
+/**
+ * Cache TTL for a path. ECB rates are published once per working day,
+ * so even "latest" can be reused for a while; single past days never change.
+ */
+function ttlFor(path: string): number {
+  if (path === 'latest') return 10 * MINUTE;
+  if (path.includes('..')) return 60 * MINUTE; // range may end today
+  return 24 * 60 * MINUTE; // currencies, single dates
+}
+
+/**
+ * Performs a GET request against a Frankfurter-style API (ECB reference rates).
+ *
+ * Frankfurter rejects a symbol list that contains the base currency, so the base
+ * is stripped here and added back as 1 by the callers.
+ *
+ * @param path   - path segment e.g., "latest", "2024-01-31", "2024-01-01..2024-01-31"
+ * @param params - base currency code and optional list of target codes
+ * @param opts   - signal to cancel the request
+ *
+ * @returns A promise that resolves to the parsed JSON response body
+ */
+async function get(
+  path: string,
+  params: { base?: string; symbols?: string[] } = {},
+  opts: CallOptions = {},
+) {
+  const query = new URLSearchParams();
+  if (params.base) query.set('base', params.base);
+
+  const symbols = (params.symbols ?? []).filter((s) => s !== params.base);
+  if (symbols.length) query.set('symbols', symbols.join(','));
+
+  const qs = query.toString();
+  const base = getConfig().frankfurterBase.replace(/\/+$/, '');
+  return getJSON(`${base}/${path}${qs ? '?' + qs : ''}`, `frankfurter ${path}`, {
+    signal: opts.signal,
+    ttl: ttlFor(path),
+  });
+}
+
+/**
+ * Adds the base currency itself (rate 1) so lookups on either side work.
+ *
+ * @param rates - parsed rates against base
+ * @param base  - base currency code
+ */
+function withBase(rates: Rates, base: string): Rates {
+  return { ...rates, [base]: 1 };
+}
+
+/**
+ * Frankfurter (https://frankfurter.app), a keyless JSON wrapper around the ECB
+ * reference rates. Fiat only, published once per working day.
+ */
+export const frankfurter: RateProvider = {
+  id: 'frankfurter',
+  label: 'Frankfurter (ECB)',
+  // longer ranges come back thinned to weekly points, which would look like closed days
+  maxRangeDays: 365,
+
+  async currencies(type: CurrencyType, opts): Promise<Currency[]> {
+    if (type === 'crypto') throw new ApiError('not-found', 'Frankfurter has no crypto currencies.');
+
+    // { "AUD": "Australian Dollar", ... }
+    const raw = await get('currencies', {}, opts);
+    return validate(currenciesBody(type), raw, 'frankfurter currencies');
+  },
+
+  async latest({ base, symbols }, opts): Promise<Rates> {
+    const json = await get('latest', { base, symbols }, opts);
+    return withBase(validate(ratesBody, json, 'frankfurter latest'), base);
+  },
+
+  async convert({ from, to, amount }, opts) {
+    if (from === to) return { result: amount, rate: 1, meta: { base: from } };
+
+    // Ask for the per-unit rate and multiply locally
+    const json = await get('latest', { base: from, symbols: [to] }, opts);
+    const rate = validate(ratesBody, json, 'frankfurter latest')[to];
+    if (typeof rate !== 'number') {
+      throw new ApiError('not-found', `Frankfurter has no rate for ${from}→${to}.`);
+    }
+
+    // Multiply exactly; the float result is only a convenience copy
+    const exactRate = rational(rate);
+    const result = mul(rational(amount), exactRate);
+    return { result: toNumber(result), rate, meta: json, exact: { result, rate: exactRate } };
+  },
+
+  async timeseries({ base, symbols, start, end }, opts): Promise<DailyRates> {
+    const json = await get(`${start}..${end}`, { base, symbols }, opts);
+    const days = validate(timeseriesBody, json, 'frankfurter timeseries');
+
+    const out: DailyRates = {};
+    for (const [date, day] of Object.entries(days)) {
+      out[date] = withBase(day, base);
+    }
+    return out;
+  },
+
+  async historical({ base, symbols, date }, opts): Promise<Rates> {
+    const json = await get(date, { base, symbols }, opts);
+    return withBase(validate(ratesBody, json, `frankfurter ${date}`), base);
+  },
+};
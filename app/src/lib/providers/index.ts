@@ -0,0 +1,67 @@
+import { currencyBeacon } from './currencybeacon';
+import { frankfurter } from './frankfurter';
+import { isAbortError } from '../http';
+import { mostRelevant } from '../errors';
+import { getConfig } from '../config';
+import type { RateProvider } from './types';
+
+export type * from './types';
+
+/** Every provider the app knows about, keyed by id */
+export const PROVIDERS: Record<string, RateProvider> = {
+  [currencyBeacon.id]: currencyBeacon,
+  [frankfurter.id]: frankfurter,
+};
+
+const DEFAULT_ORDER = 'currencybeacon,frankfurter';
+
+/**
+ * Resolves the ordered failover chain from VITE_RATE_PROVIDERS
+ * (comma-separated ids, e.g. "currencybeacon,frankfurter").
+ * Unknown ids are ignored; an empty result falls back to the default order.
+ *
+ * @param config - raw config string, defaults to the configured value
+ * @returns Providers in the order they should be tried
+ */
+export function providerChain(
+  config: string = getConfig().rateProviders,
+): RateProvider[] {
+  const ids = config
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const chain = [...new Set(ids)].map((id) => PROVIDERS[id]).filter(Boolean);
+  return chain.length ? chain : providerChain(DEFAULT_ORDER);
+}
+
+/**
+ * Runs task against each provider in order and returns the first success.
+ *
+ * @param task  - work to run against a single provider; throw to move on
+ * @param chain - providers to try, defaults to the configured chain
+ *
+ * @returns Promise resolving to the first provider's successful result
+ *
+ * @throws The most relevant provider error when every provider fails (see mostRelevant:
+ *   an invalid key beats a fallback's "not found"), or at once when the request was aborted
+ */
+export async function withFailover<T>(
+  task: (provider: RateProvider) => Promise<T>,
+  chain: RateProvider[] = providerChain(),
+): Promise<T> {
+  if (!chain.length) throw new Error('No rate providers configured.');
+  const errors: unknown[] = [];
+
+  for (const provider of chain) {
+    try {
+      return await task(provider);
+    } catch (e) {
+      // nobody wants the answer any more - don't bother the other sources
+      if (isAbortError(e)) throw e;
+      // remember why and try the next source
+      errors.push(e);
+    }
+  }
+  throw mostRelevant(errors);
+}
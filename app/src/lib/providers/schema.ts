@@ -0,0 +1,160 @@
+/**
+ * Runtime validation of provider payloads. Each schema checks an unknown JSON
+ * value and returns it typed, or throws a malformed ApiError naming the path
+ * that didn't match, so a changed API surfaces as such instead of as an
+ * empty chart.
+ */
+import { ApiError } from '../errors';
+import type { DailyRates, Rates } from './types';
+
+/** Checks value and returns it typed; path is where value sits, for messages */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+class SchemaError extends Error {}
+
+const fail = (path: string, expected: string): never => {
+  throw new SchemaError(`expected ${expected} at ${path || 'the top level'}`);
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/** A finite number; numeric strings ("0.91") are accepted too */
+export const finiteNumber: Schema<number> = (value, path) => {
+  const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : fail(path, 'a number');
+};
+
+/** A plain object (not an array) */
+export const object: Schema<Record<string, unknown>> = (value, path) =>
+  isRecord(value) ? value : fail(path, 'an object');
+
+/**
+ * The value at a nested key path, checked with schema
+ *
+ * @param keys   - e.g. ["response", "rates"]
+ * @param schema - check for the value found there
+ */
+export function at<T>(keys: string[], schema: Schema<T>): Schema<T> {
+  return (value, path) => {
+    let current = value;
+    let where = path;
+    for (const key of keys) {
+      current = object(current, where)[key];
+      where = where ? `${where}.${key}` : key;
+    }
+    return schema(current, where);
+  };
+}
+
+/**
+ * The first alternative that matches; providers nest the same data
+ * differently between endpoints and API versions
+ *
+ * @param schemas - alternatives, most likely first
+ */
+export function oneOf<T>(...schemas: Schema<T>[]): Schema<T> {
+  return (value, path) => {
+    const errors: string[] = [];
+    for (const schema of schemas) {
+      try {
+        return schema(value, path);
+      } catch (e) {
+        if (!(e instanceof SchemaError)) throw e;
+        errors.push(e.message);
+      }
+    }
+    throw new SchemaError([...new Set(errors)].join('; or '));
+  };
+}
+
+/**
+ * An object whose entries are each checked with schema
+ *
+ * @param schema  - check for each value
+ * @param options - keys: keys to keep (others are ignored); lenient: drop entries
+ *   that fail instead of failing the whole object
+ */
+export function record<T>(
+  schema: Schema<T>,
+  options: { keys?: RegExp; lenient?: boolean } = {},
+): Schema<Record<string, T>> {
+  return (value, path) => {
+    const out: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(object(value, path))) {
+      if (options.keys && !options.keys.test(key)) continue;
+      try {
+        out[key] = schema(entry, path ? `${path}.${key}` : key);
+      } catch (e) {
+        if (!(e instanceof SchemaError) || !options.lenient) throw e;
+      }
+    }
+    return out;
+  };
+}
+
+/**
+ * schema plus a check on its result, e.g. "at least one currency"
+ *
+ * @param schema   - base check
+ * @param ok       - extra condition on the typed value
+ * @param expected - what was expected, for the message
+ */
+export function refine<T>(schema: Schema<T>, ok: (value: T) => boolean, expected: string): Schema<T> {
+  return (value, path) => {
+    const out = schema(value, path);
+    return ok(out) ? out : fail(path, expected);
+  };
+}
+
+/**
+ * Runs a schema on a response body
+ *
+ * @param schema   - what the body must look like
+ * @param body     - parsed JSON
+ * @param endpoint - name of the call, for the error message
+ *
+ * @throws ApiError (malformed) - when the body doesn't match
+ */
+export function validate<T>(schema: Schema<T>, body: unknown, endpoint: string): T {
+  try {
+    return schema(body, '');
+  } catch (e) {
+    if (!(e instanceof SchemaError)) throw e;
+    throw new ApiError('malformed', `${endpoint}: ${e.message}`, { endpoint });
+  }
+}
+
+// ---- payload schemas shared by the providers ----
+
+/**
+ * { CODE: rate } with uppercase keys; entries that aren't numbers (null for
+ * a symbol the source lacks) are skipped rather than failing the whole day
+ */
+export const ratesMap: Schema<Rates> = (value, path) => {
+  const raw = record(finiteNumber, { lenient: true })(value, path);
+  return Object.fromEntries(Object.entries(raw).map(([code, rate]) => [code.toUpperCase(), rate]));
+};
+
+/** Rates of a latest or historical answer: top-level "rates" or "response.rates" */
+export const ratesBody: Schema<Rates> = oneOf(at(['rates'], ratesMap), at(['response', 'rates'], ratesMap));
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const dailyMap: Schema<DailyRates> = record(ratesMap, { keys: DAY_KEY });
+
+/** Days of a timeseries answer: "rates", "data.rates", "response.rates" or "response" itself */
+export const timeseriesBody: Schema<DailyRates> = oneOf(
+  at(['rates'], dailyMap),
+  at(['data', 'rates'], dailyMap),
+  at(['response', 'rates'], dailyMap),
+  at(['response'], dailyMap),
+);
+
+/** Converted amount of a convert answer */
+export const convertBody: Schema<number> = oneOf(
+  at(['result'], finiteNumber),
+  at(['response', 'value'], finiteNumber),
+  at(['response', 'result'], finiteNumber),
+  at(['data', 'result'], finiteNumber),
+  at(['value'], finiteNumber),
+);
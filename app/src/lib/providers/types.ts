@@ -0,0 +1,66 @@
+import type { Rational } from '../money';
+
+export type CurrencyType = 'fiat' | 'crypto';
+
+export type Currency = { code: string; name: string; symbol?: string; type?: CurrencyType };
+
+/** Flat map of uppercase currency codes to rates against a base, e.g. { EUR: 0.91 } */
+export type Rates = Record<string, number>;
+
+/** Rates keyed by day ("YYYY-MM-DD"), each against the same base */
+export type DailyRates = Record<string, Rates>;
+
+export type ConvertResponse = {
+  result: number;
+  rate?: number;
+  meta?: Record<string, unknown>;
+  /** id of the provider that answered, e.g. "currencybeacon" */
+  provider?: string;
+  /** result and rate without any float rounding; round these only for display */
+  exact?: { result: Rational; rate?: Rational };
+};
+
+/** Per-call options every provider method accepts */
+export type CallOptions = {
+  /** aborts the underlying request when the answer is no longer needed */
+  signal?: AbortSignal;
+};
+
+/**
+ * A source of exchange rates. Every method throws when the source can't
+ * answer, so the failover chain can move on to the next provider.
+ */
+export type RateProvider = {
+  /** Stable id used in config and in results, e.g. "frankfurter" */
+  id: string;
+  /** Human-readable name for the UI */
+  label: string;
+  /** Longest range (in days) one timeseries request may cover */
+  maxRangeDays?: number;
+  /** Requests left in the configured budget; undefined when there is none */
+  remainingCalls?(): number | undefined;
+
+  /** Lists the currencies this source knows about */
+  currencies(type: CurrencyType, opts?: CallOptions): Promise<Currency[]>;
+
+  /** Latest rates for symbols against base (all symbols when omitted) */
+  latest(params: { base: string; symbols?: string[] }, opts?: CallOptions): Promise<Rates>;
+
+  /** Converts an amount directly, when the source has such an endpoint */
+  convert(
+    params: { from: string; to: string; amount: number },
+    opts?: CallOptions,
+  ): Promise<ConvertResponse>;
+
+  /** Daily rates for symbols against base, inclusive of start and end */
+  timeseries(
+    params: { base: string; symbols: string[]; start: string; end: string },
+    opts?: CallOptions,
+  ): Promise<DailyRates>;
+
+  /** Rates for a single past day, used when timeseries is unavailable */
+  historical?(
+    params: { base: string; symbols: string[]; date: string },
+    opts?: CallOptions,
+  ): Promise<Rates>;
+};
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { presetRange, rangeStart } from './ranges';
+import { parseUrlState } from './urlState';
+
+const dayCount = (start: string, end: string) => (Date.parse(end) - Date.parse(start)) / 86_400_000 + 1;
+
+describe('date ranges across a DST change', () => {
+  const tz = process.env.TZ;
+
+  beforeEach(() => {
+    // Berlin moved to summer time on 2024-03-31; 23:30 UTC is already 1 April there
+    process.env.TZ = 'Europe/Berlin';
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-31T23:30:00Z'));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    if (tz === undefined) delete process.env.TZ;
+    else process.env.TZ = tz;
+  });
+
+  it('gives rolling presets exactly their number of days', () => {
+    expect(presetRange('7D')).toEqual({ start: '2024-03-25', end: '2024-03-31' });
+    expect(dayCount(presetRange('1M').start, presetRange('1M').end)).toBe(30);
+    expect(presetRange('YTD')).toEqual({ start: '2024-01-01', end: '2024-03-31' });
+  });
+
+  it('counts day ranges from links the same way', () => {
+    const state = parseUrlState('?range=45');
+    expect(state).toMatchObject({ range: 'custom', end: '2024-03-31' });
+    expect(dayCount(state.start!, state.end!)).toBe(45);
+  });
+
+  it('works the same in a zone west of UTC', () => {
+    process.env.TZ = 'America/New_York';
+    // 20:30 on 2024-11-03 in New York, hours after the clocks went back
+    const today = new Date('2024-11-04T01:30:00Z');
+    expect(rangeStart(today, 7)).toBe('2024-10-29');
+    expect(presetRange('7D', today)).toEqual({ start: '2024-10-29', end: '2024-11-04' });
+  });
+});
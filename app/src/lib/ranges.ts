@@ -0,0 +1,95 @@
+/**
+ * Chart date ranges: fixed presets ending today, or a custom start/end.
+ * Dates are "YYYY-MM-DD" in UTC, like everything the API layer sends.
+ */
+
+export type RangePreset = '7D' | '1M' | '3M' | '6M' | '1Y' | '5Y' | 'YTD';
+
+export const RANGE_PRESETS: RangePreset[] = ['7D', '1M', '3M', '6M', '1Y', '5Y', 'YTD'];
+
+// Length in days of each rolling preset (YTD depends on today)
+const PRESET_DAYS: Record<Exclude<RangePreset, 'YTD'>, number> = {
+  '7D': 7,
+  '1M': 30,
+  '3M': 90,
+  '6M': 182,
+  '1Y': 365,
+  '5Y': 1826,
+};
+
+// Oldest day the providers have data for (ECB reference rates start here)
+export const EARLIEST_DATE = '1999-01-04';
+
+export const toISODate = (d: Date) => d.toISOString().slice(0, 10);
+
+/**
+ * Whether value is one of the preset ids
+ *
+ * @param value - e.g. "3M" from a button or the URL
+ */
+export function isRangePreset(value: string): value is RangePreset {
+  return (RANGE_PRESETS as string[]).includes(value);
+}
+
+/**
+ * Start and end dates for a preset, ending today
+ *
+ * @param preset - preset id e.g. "1Y"
+ * @param today  - reference day, defaults to now
+ */
+export function presetRange(preset: RangePreset, today = new Date()): { start: string; end: string } {
+  const end = toISODate(today);
+  if (preset === 'YTD') return { start: `${end.slice(0, 4)}-01-01`, end };
+
+  return { start: rangeStart(today, PRESET_DAYS[preset]), end };
+}
+
+/**
+ * First day of a range of days ending today (inclusive), counted in UTC like
+ * the dates themselves; local days would gain or lose one across DST changes
+ *
+ * @param today - last day of the range
+ * @param days  - range length, at least 1
+ */
+export function rangeStart(today: Date, days: number): string {
+  const start = new Date(today);
+  start.setUTCDate(today.getUTCDate() - (days - 1));
+  return toISODate(start);
+}
+
+/**
+ * Checks a custom range and explains what is wrong with it
+ *
+ * @param start - inclusive start date "YYYY-MM-DD"
+ * @param end   - inclusive end date "YYYY-MM-DD"
+ * @param today - reference day, defaults to now
+ *
+ * @returns A message for the user, or null when the range is usable
+ */
+export function validateRange(start: string, end: string, today = new Date()): string | null {
+  const iso = /^\d{4}-\d{2}-\d{2}$/;
+  if (!iso.test(start) || !iso.test(end)) return 'Pick both a start and an end date.';
+  if (start > end) return 'The start date must be before the end date.';
+  if (end > toISODate(today)) return 'The end date can’t be in the future.';
+  if (start < EARLIEST_DATE) return `History starts on ${EARLIEST_DATE}.`;
+  return null;
+}
+
+/**
+ * Rolling preset with exactly this many days, e.g. 90 → "3M"
+ *
+ * @param days - range length as written in links like ?range=90
+ * @returns The preset id, or undefined when no rolling preset is that long
+ */
+export function presetForDays(days: number): RangePreset | undefined {
+  return (Object.keys(PRESET_DAYS) as (keyof typeof PRESET_DAYS)[]).find((p) => PRESET_DAYS[p] === days);
+}
+
+/**
+ * Length in days of a rolling preset, undefined for "YTD"
+ *
+ * @param preset - preset id e.g. "3M"
+ */
+export function presetDays(preset: RangePreset): number | undefined {
+  return preset === 'YTD' ? undefined : PRESET_DAYS[preset];
+}
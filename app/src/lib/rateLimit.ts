@@ -0,0 +1,93 @@
+/**
+ * Client-side request pacing: a token bucket holds up to `capacity` tokens
+ * and regains `perSecond` of them every second. Each request takes one token,
+ * waiting (in call order) when the bucket is empty, so bursts are allowed but
+ * a long loop settles at the refill rate.
+ */
+
+export type TokenBucket = {
+  /**
+   * Resolves once a token is taken
+   *
+   * @param signal - leaves the queue and rejects with its AbortError when aborted
+   */
+  take(signal?: AbortSignal): Promise<void>;
+  /** Takes a token only if one is free right now and nobody is queued; never waits */
+  tryTake(): boolean;
+};
+
+type Waiter = { resolve: () => void; signal?: AbortSignal; onAbort?: () => void };
+
+/**
+ * @param opts
+ *   - capacity:  largest burst
+ *   - perSecond: refill rate
+ *   - now:       clock in ms, defaults to Date.now
+ */
+export function createTokenBucket(opts: {
+  capacity: number;
+  perSecond: number;
+  now?: () => number;
+}): TokenBucket {
+  const capacity = Math.max(1, opts.capacity);
+  const perSecond = Math.max(0.001, opts.perSecond);
+  const now = opts.now ?? Date.now;
+
+  let tokens = capacity;
+  let last = now();
+  const queue: Waiter[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const refill = () => {
+    const t = now();
+    tokens = Math.min(capacity, tokens + ((t - last) / 1000) * perSecond);
+    last = t;
+  };
+
+  // Hands tokens to waiters in order; sleeps until the next token otherwise
+  const drain = () => {
+    timer = undefined;
+    refill();
+    while (queue.length && tokens >= 1) {
+      tokens -= 1;
+      const w = queue.shift()!;
+      if (w.onAbort) w.signal?.removeEventListener('abort', w.onAbort);
+      w.resolve();
+    }
+    if (queue.length) {
+      timer = setTimeout(drain, Math.ceil(((1 - tokens) / perSecond) * 1000));
+    }
+  };
+
+  return {
+    take(signal) {
+      signal?.throwIfAborted();
+      refill();
+      if (!queue.length && tokens >= 1) {
+        tokens -= 1;
+        return Promise.resolve();
+      }
+
+      return new Promise<void>((resolve, reject) => {
+        const waiter: Waiter = { resolve, signal };
+        if (signal) {
+          waiter.onAbort = () => {
+            const i = queue.indexOf(waiter);
+            if (i !== -1) queue.splice(i, 1);
+            reject(signal.reason);
+          };
+          signal.addEventListener('abort', waiter.onAbort, { once: true });
+        }
+        queue.push(waiter);
+        if (timer === undefined) drain();
+      });
+    },
+
+    tryTake() {
+      refill();
+      if (queue.length || tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import { isApiError } from './errors';
+
+export type RetryOptions = {
+  /** extra attempts after the first; 0 disables retrying */
+  retries?: number;
+  /** first backoff ceiling in ms; doubles per attempt */
+  baseDelay?: number;
+  /** backoff ceiling in ms */
+  maxDelay?: number;
+  /** a Retry-After longer than this (ms) isn't waited for; the error is thrown instead */
+  maxRetryAfter?: number;
+  /** cancels the waiting between attempts */
+  signal?: AbortSignal;
+  /** source of jitter, 0 ≤ x < 1 */
+  random?: () => number;
+};
+
+const DEFAULTS = { retries: 3, baseDelay: 500, maxDelay: 8_000, maxRetryAfter: 30_000 };
+
+/**
+ * Waits ms, rejecting with the signal's AbortError if it aborts first
+ *
+ * @param ms     - delay
+ * @param signal - optional cancellation
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay before retry number attempt (0-based): "full jitter", a random wait
+ * between 0 and min(maxDelay, baseDelay × 2^attempt), so clients that failed
+ * together don't retry together
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelay = DEFAULTS.baseDelay,
+  maxDelay = DEFAULTS.maxDelay,
+  random = Math.random,
+): number {
+  return Math.round(random() * Math.min(maxDelay, baseDelay * 2 ** attempt));
+}
+
+/**
+ * Whether a failure may go away by itself: no connection (while the browser
+ * thinks it is online), a 5xx, or a 429 rate limit. A bad key, a spent plan
+ * (402), missing data and malformed answers fail the same way every time.
+ *
+ * @param err - error thrown by a request
+ */
+export function isRetryable(err: unknown): boolean {
+  if (isApiError(err, 'network')) return typeof navigator === 'undefined' || navigator.onLine !== false;
+  if (isApiError(err, 'server')) return true;
+  return isApiError(err, 'quota') && err.status === 429;
+}
+
+/**
+ * Runs task, retrying transient failures with jittered exponential backoff.
+ * A Retry-After from the server is honoured instead of the backoff when it
+ * is short enough to wait for.
+ *
+ * @param task - one attempt; receives the 0-based attempt number
+ * @param opts - see RetryOptions
+ *
+ * @returns The first successful result
+ *
+ * @throws The last error once retries are used up, or at once when it isn't retryable
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  opts: RetryOptions = {},
+): Promise<T> {
+  const { retries, baseDelay, maxDelay, maxRetryAfter } = { ...DEFAULTS, ...opts };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (e) {
+      if (attempt >= retries || !isRetryable(e)) throw e;
+
+      const retryAfter = isApiError(e) ? e.retryAfter : undefined;
+      if (retryAfter !== undefined && retryAfter > maxRetryAfter) throw e;
+
+      await sleep(retryAfter ?? backoffDelay(attempt, baseDelay, maxDelay, opts.random), opts.signal);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import type { DailyRates, Rates } from './providers';
+
+/**
+ * Dated rate snapshots persisted in IndexedDB so conversions and charts keep
+ * working without a network.
+ *
+ * Two stores share one record shape, keyed "<BASE>:<YYYY-MM-DD>":
+ *   - latest: merged /latest answers, one record per base per day
+ *   - days:   daily rates from timeseries/historical answers; past days never
+ *             change, so these double as the chart's incremental cache
+ */
+
+export type Snapshot = {
+  id: string;
+  base: string;
+  /** day the rates apply to, "YYYY-MM-DD" */
+  date: string;
+  /** when the rates were fetched (ms since epoch) */
+  at: number;
+  rates: Rates;
+  /** set for past days a provider had no rates for at all (weekends, holidays) */
+  closed?: boolean;
+};
+
+type StoreName = 'latest' | 'days';
+
+const DB_NAME = 'cb_snapshots';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the snapshot database.
+ * Rejects when IndexedDB is unavailable, e.g. in some private browsing modes.
+ */
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available.'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains('latest')) db.createObjectStore('latest', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('days')) db.createObjectStore('days', { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }).catch((e) => {
+      // let a later call try again
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+}
+
+/** Wraps an IDBRequest in a promise */
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Key range covering every record of one base, in date order */
+function baseRange(base: string, from = '', to = '\uffff'): IDBKeyRange {
+  return IDBKeyRange.bound(`${base}:${from}`, `${base}:${to}`);
+}
+
+/**
+ * Merges rates into the snapshot for base/date, so several small answers on
+ * the same day build up one fuller snapshot.
+ */
+async function merge(store: StoreName, base: string, date: string, rates: Rates): Promise<void> {
+  if (!Object.keys(rates).length) return;
+
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  const id = `${base}:${date}`;
+
+  const existing = (await done(os.get(id))) as Snapshot | undefined;
+  const next: Snapshot = { id, base, date, at: Date.now(), rates: { ...existing?.rates, ...rates } };
+  await done(os.put(next));
+}
+
+/**
+ * Persists a /latest answer as today's snapshot for base.
+ * Failures are swallowed: snapshots are a best-effort backup.
+ *
+ * @param base  - base the rates are quoted against
+ * @param rates - parsed rates, e.g. { EUR: 0.91 }
+ */
+export async function saveLatest(base: string, rates: Rates): Promise<void> {
+  try {
+    await merge('latest', base, new Date().toISOString().slice(0, 10), rates);
+  } catch {
+    // storage unavailable or full - nothing to do
+  }
+}
+
+/**
+ * Persists daily rates from a timeseries or historical answer.
+ * Failures are swallowed: snapshots are a best-effort backup.
+ *
+ * @param base - base the rates are quoted against
+ * @param days - rates keyed by "YYYY-MM-DD"
+ */
+export async function saveDays(base: string, days: DailyRates): Promise<void> {
+  try {
+    for (const [date, rates] of Object.entries(days)) {
+      await merge('days', base, date, rates);
+    }
+  } catch {
+    // storage unavailable or full - nothing to do
+  }
+}
+
+/**
+ * Remembers past days that a provider answered for but had no rates on
+ * (markets closed), so they aren't requested again.
+ *
+ * @param base  - base the request was made against
+ * @param dates - days to mark, "YYYY-MM-DD"
+ */
+export async function markClosed(base: string, dates: string[]): Promise<void> {
+  try {
+    const db = await openDb();
+    for (const date of dates) {
+      const os = db.transaction('days', 'readwrite').objectStore('days');
+      const id = `${base}:${date}`;
+      const existing = (await done(os.get(id))) as Snapshot | undefined;
+      await done(os.put({ id, base, date, at: Date.now(), rates: existing?.rates ?? {}, closed: true }));
+    }
+  } catch {
+    // storage unavailable or full - nothing to do
+  }
+}
+
+/**
+ * Newest /latest snapshot for base, if any was ever saved.
+ *
+ * @param base - base currency code e.g. "USD"
+ */
+export async function newestLatest(base: string): Promise<Snapshot | undefined> {
+  try {
+    const db = await openDb();
+    const os = db.transaction('latest').objectStore('latest');
+    const cursor = await done(os.openCursor(baseRange(base), 'prev'));
+    return (cursor?.value as Snapshot | undefined) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Saved daily snapshots for base between start and end (inclusive), oldest first.
+ *
+ * @param base  - base currency code e.g. "USD"
+ * @param start - inclusive start date "YYYY-MM-DD"
+ * @param end   - inclusive end date "YYYY-MM-DD"
+ */
+export async function savedDays(base: string, start: string, end: string): Promise<Snapshot[]> {
+  try {
+    const db = await openDb();
+    const os = db.transaction('days').objectStore('days');
+    return (await done(os.getAll(baseRange(base, start, end)))) as Snapshot[];
+  } catch {
+    return [];
+  }
+}
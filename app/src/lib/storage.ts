@@ -0,0 +1,54 @@
+/**
+ * Where the API layer keeps small values between visits (the currency list
+ * cache, the API usage counter, the rounding mode). localStorage in the
+ * browser; the CLI swaps in a file. Without either, values last for the
+ * session only.
+ */
+
+/** The subset of the Web Storage API the app uses */
+export type KeyValueStore = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+/**
+ * A store that forgets everything when the process ends
+ */
+export function memoryStore(): KeyValueStore {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+function defaultStore(): KeyValueStore {
+  try {
+    if (typeof localStorage !== 'undefined') return localStorage;
+  } catch {
+    // storage blocked, e.g. in a sandboxed frame
+  }
+  return memoryStore();
+}
+
+let store: KeyValueStore = defaultStore();
+
+/** The current store */
+export function storage(): KeyValueStore {
+  return store;
+}
+
+/**
+ * Replaces the store; call before the first request or rounding lookup
+ *
+ * @param next - e.g. a file-backed store
+ */
+export function setStorage(next: KeyValueStore): void {
+  store = next;
+}
@@ -0,0 +1,99 @@
+import {
+  isRangePreset,
+  presetDays,
+  presetForDays,
+  rangeStart,
+  toISODate,
+  validateRange,
+  type RangePreset,
+} from './ranges';
+
+/**
+ * Converter and chart state as it appears in a shareable link, e.g.
+ * ?from=GBP&to=JPY&amount=2500&range=90
+ *
+ * Every field is optional: anything missing or malformed in the URL is left
+ * out, so the app keeps its own default for it.
+ */
+export type UrlState = {
+  from?: string;
+  to?: string;
+  /** the evaluated amount; the link holds it as a plain "."-decimal number */
+  amount?: number;
+  range?: RangePreset | 'custom';
+  /** custom range only, "YYYY-MM-DD" */
+  start?: string;
+  end?: string;
+};
+
+const CODE = /^[A-Z0-9]{2,10}$/;
+
+/**
+ * Reads UrlState from a query string
+ *
+ * range accepts a preset id ("3M", "ytd"), a number of days ("90"), or
+ * "custom" together with start and end. A day count without a matching
+ * preset becomes a custom range ending today.
+ *
+ * @param search - e.g. window.location.search
+ * @param today  - reference day for day counts, defaults to now
+ */
+export function parseUrlState(search: string, today = new Date()): UrlState {
+  const params = new URLSearchParams(search);
+  const state: UrlState = {};
+
+  const from = params.get('from')?.trim().toUpperCase();
+  const to = params.get('to')?.trim().toUpperCase();
+  if (from && CODE.test(from)) state.from = from;
+  if (to && CODE.test(to)) state.to = to;
+
+  const amount = params.get('amount')?.trim();
+  if (amount && Number.isFinite(Number(amount)) && Number(amount) >= 0) state.amount = Number(amount);
+
+  const range = params.get('range')?.trim().toUpperCase();
+  if (range && isRangePreset(range)) {
+    state.range = range;
+  } else if (range && /^\d+$/.test(range)) {
+    const days = Number(range);
+    const preset = presetForDays(days);
+    if (preset) {
+      state.range = preset;
+    } else if (days >= 1) {
+      setCustom(state, rangeStart(today, days), toISODate(today), today);
+    }
+  } else if (range === 'CUSTOM') {
+    setCustom(state, params.get('start') ?? '', params.get('end') ?? '', today);
+  }
+
+  return state;
+}
+
+// Keeps a custom range only when it is one the chart can show
+function setCustom(state: UrlState, start: string, end: string, today: Date) {
+  if (validateRange(start, end, today)) return;
+  state.range = 'custom';
+  state.start = start;
+  state.end = end;
+}
+
+/**
+ * Writes UrlState as a query string (with leading "?", or "" when empty).
+ * Rolling presets are written as day counts, e.g. "3M" as range=90.
+ */
+export function buildSearch(state: UrlState): string {
+  const params = new URLSearchParams();
+  if (state.from) params.set('from', state.from);
+  if (state.to) params.set('to', state.to);
+  if (state.amount !== undefined) params.set('amount', String(state.amount));
+
+  if (state.range === 'custom') {
+    params.set('range', 'custom');
+    if (state.start) params.set('start', state.start);
+    if (state.end) params.set('end', state.end);
+  } else if (state.range) {
+    params.set('range', String(presetDays(state.range) ?? state.range.toLowerCase()));
+  }
+
+  const text = params.toString();
+  return text ? `?${text}` : '';
+}
@@ -0,0 +1,118 @@
+import { getConfig } from './config';
+import { storage } from './storage';
+
+/**
+ * Count of CurrencyBeacon requests made from this browser today and this
+ * month, persisted so reloads don't reset it, against the key's budget from
+ * VITE_CURRENCYBEACON_DAILY_BUDGET / VITE_CURRENCYBEACON_MONTHLY_BUDGET.
+ * Read by the UI through useApiUsage.
+ */
+
+export type ApiUsage = {
+  /** UTC day the today count belongs to, "YYYY-MM-DD" */
+  day: string;
+  today: number;
+  /** UTC month the month count belongs to, "YYYY-MM" */
+  month: string;
+  thisMonth: number;
+};
+
+export type BudgetLevel = 'ok' | 'warn' | 'over';
+
+export const USAGE_KEY = 'cb_api_usage_v1';
+
+/** Share of a budget at which the UI starts warning */
+export const WARN_AT = 0.8;
+
+const listeners = new Set<() => void>();
+
+// Rolls the counts over when the day or month has changed since they were written
+function current(stored: ApiUsage | null, now: Date): ApiUsage {
+  const day = now.toISOString().slice(0, 10);
+  const month = day.slice(0, 7);
+  return {
+    day,
+    today: stored?.day === day ? stored.today : 0,
+    month,
+    thisMonth: stored?.month === month ? stored.thisMonth : 0,
+  };
+}
+
+function load(now = new Date()): ApiUsage {
+  try {
+    const parsed = JSON.parse(storage().getItem(USAGE_KEY) ?? 'null');
+    const valid =
+      parsed &&
+      typeof parsed.day === 'string' &&
+      typeof parsed.today === 'number' &&
+      typeof parsed.month === 'string' &&
+      typeof parsed.thisMonth === 'number';
+    return current(valid ? parsed : null, now);
+  } catch {
+    return current(null, now);
+  }
+}
+
+// loaded on first read, so a store set up at startup is the one used
+let state: ApiUsage | undefined;
+
+/** Current counts; stable between changes, as useSyncExternalStore expects */
+export function getUsage(): ApiUsage {
+  state ??= load();
+  const fresh = current(state, new Date());
+  // a new day or month started while the page was open
+  if (fresh.day !== state.day || fresh.month !== state.month) state = fresh;
+  return state;
+}
+
+/** Registers a change listener; returns the unsubscribe function */
+export function subscribeUsage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Counts one request that reached the network (cache hits and coalesced
+ * calls don't count; retries do). Re-reads storage first so several open
+ * tabs add up instead of overwriting each other.
+ *
+ * @param now - time of the call, defaults to now
+ */
+export function recordCall(now = new Date()): void {
+  const base = load(now);
+  state = { ...base, today: base.today + 1, thisMonth: base.thisMonth + 1 };
+  try {
+    storage().setItem(USAGE_KEY, JSON.stringify(state));
+  } catch {
+    // storage blocked - the count lasts for this visit
+  }
+  listeners.forEach((l) => l());
+}
+
+/**
+ * Calls left before the tighter of the two budgets runs out
+ *
+ * @returns The count (0 when over), or undefined when no budget is configured
+ */
+export function remainingCalls(usage: ApiUsage = getUsage()): number | undefined {
+  const { dailyBudget, monthlyBudget } = getConfig();
+  const left = [
+    dailyBudget && dailyBudget - usage.today,
+    monthlyBudget && monthlyBudget - usage.thisMonth,
+  ].filter((n): n is number => n !== undefined);
+  return left.length ? Math.max(0, Math.min(...left)) : undefined;
+}
+
+/**
+ * How close usage is to a budget: 'warn' from WARN_AT of either budget, 'over' once one is used up
+ *
+ * @param used   - calls made in the period
+ * @param budget - allowed calls in the period, undefined for none
+ */
+export function budgetLevel(used: number, budget: number | undefined): BudgetLevel {
+  if (!budget) return 'ok';
+  if (used >= budget) return 'over';
+  return used >= budget * WARN_AT ? 'warn' : 'ok';
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Bundles the command-line tool for Node: npm run build:cli, then node dist-cli/cli.js
+export default defineConfig({
+  // the CLI reads its settings from process.env at run time; keep .env values out of the bundle
+  envDir: false,
+  publicDir: false,
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: { entryFileNames: 'cli.js' },
+    },
+  },
+})
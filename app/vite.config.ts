@@ -1,7 +1,47 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Placeholder in public/sw.js that the build replaces
+const PRECACHE_MARKER = "/* __PRECACHE__ */ { version: 'dev', assets: [] }"
+
+/**
+ * Writes the build's hashed files into dist/sw.js, so the service worker
+ * precaches them on install (a first visit otherwise never caches the bundles
+ * and the installed app opens blank offline) and its cache name changes with
+ * every deploy.
+ */
+function precacheAssets(): Plugin {
+  let outDir = 'dist'
+  let assets: string[] = []
+  return {
+    name: 'precache-assets',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+    },
+    generateBundle(_options, bundle) {
+      assets = Object.keys(bundle)
+        .filter((file) => file.startsWith('assets/') && !file.endsWith('.map'))
+        .sort()
+        .map((file) => `/${file}`)
+    },
+    // after the public folder (and so sw.js) has been copied
+    closeBundle() {
+      const file = join(outDir, 'sw.js')
+      const source = readFileSync(file, 'utf8')
+      if (!source.includes(PRECACHE_MARKER)) {
+        this.error('public/sw.js lost its precache placeholder')
+      }
+      const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 8)
+      writeFileSync(file, source.replace(PRECACHE_MARKER, JSON.stringify({ version, assets })))
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheAssets()],
 })
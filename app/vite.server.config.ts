@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Bundles the API proxy for Node: npm run build:server, then node dist-server/proxy.js
+export default defineConfig({
+  // the proxy reads its settings (and the API key) from process.env at run time
+  envDir: false,
+  publicDir: false,
+  build: {
+    ssr: 'server/index.ts',
+    outDir: 'dist-server',
+    target: 'node20',
+    rollupOptions: {
+      output: { entryFileNames: 'proxy.js' },
+    },
+  },
+})